@@ -6,7 +6,8 @@ test.describe('Sudoku Game Functionality', () => {
   });
 
   test('should complete a game flow', async ({ page }) => {
-    // Start with an easy game
+    // Start with an easy 4x4 game
+    await page.getByTestId('grid-size-4').click();
     await page.getByTestId('new-game-easy').click();
     await page.waitForTimeout(500);
     
@@ -42,7 +43,7 @@ test.describe('Sudoku Game Functionality', () => {
   });
 
   test('should handle rapid difficulty changes', async ({ page }) => {
-    const difficulties = ['easy', 'medium', 'hard'];
+    const difficulties = ['beginner', 'easy', 'medium', 'hard', 'expert'];
     
     for (const difficulty of difficulties) {
       await page.getByTestId(`new-game-${difficulty}`).click();
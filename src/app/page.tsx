@@ -4,6 +4,7 @@ import { SudokuProvider } from '@/context/SudokuContext';
 import { SudokuGrid } from '@/components/SudokuGrid';
 import { GameControls } from '@/components/GameControls';
 import { MobileNumberPad } from '@/components/MobileNumberPad';
+import { ResumeGamePrompt } from '@/components/ResumeGamePrompt';
 import { motion } from 'framer-motion';
 import { useEffect } from 'react';
 
@@ -56,6 +57,9 @@ export default function Home() {
 
         {/* Mobile Number Pad */}
         <MobileNumberPad />
+
+        {/* Continue or replace the game saved in this browser */}
+        <ResumeGamePrompt />
       </div>
     </SudokuProvider>
   );
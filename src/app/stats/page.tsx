@@ -0,0 +1,28 @@
+'use client';
+
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { StatsDashboard } from '@/components/StatsDashboard';
+
+export default function StatsPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-purple-900 flex flex-col p-4">
+      {/* Header */}
+      <motion.div
+        className="text-center mb-6"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="text-4xl md:text-5xl font-bold text-white mb-2 bg-gradient-to-r from-white to-blue-200 bg-clip-text text-transparent">
+          Statistics
+        </h1>
+        <Link href="/" className="text-blue-300 hover:text-blue-200 text-base md:text-lg" data-testid="back-to-game">
+          ← Back to the game
+        </Link>
+      </motion.div>
+
+      <StatsDashboard />
+    </div>
+  );
+}
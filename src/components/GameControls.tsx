@@ -1,38 +1,129 @@
 'use client';
 
-import React, { memo, useCallback } from 'react';
-import { motion } from 'framer-motion';
-import { Difficulty } from '@/types/sudoku';
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AssistLevel, ClueSymmetry, Difficulty, EntryMode, GridSize, HintLevel } from '@/types/sudoku';
 import { useSudoku } from '@/context/SudokuContext';
+import { DIFFICULTIES, GRID_SIZES, getDifficultySettings, getGridConfig, getGridSizeLabel } from '@/utils/gridConfig';
+import { LogicalSolver } from '@/utils/logicalSolver';
+import { SEED_DIGITS } from '@/utils/random';
+import { ASSIST_LEVELS, ASSIST_LEVEL_LABELS, hasAssist } from '@/utils/assist';
+import { formatTime } from '@/utils/time';
+import { LoadingSpinner } from './LoadingSpinner';
+import { SavedGamesScreen } from './SavedGamesScreen';
 import clsx from 'clsx';
 
-const difficultyOptions: { value: Difficulty; label: string; color: string }[] = [
-  { value: 'easy', label: '4×4 Easy', color: 'from-green-500 to-green-600' },
-  { value: 'medium', label: '6×6 Medium', color: 'from-yellow-500 to-yellow-600' },
-  { value: 'hard', label: '16×16 Hard', color: 'from-red-500 to-red-600' },
-];
+// Label of the hint button, by the level it reveals next
+const hintButtonLabels: Record<HintLevel, string> = {
+  1: '💡 Where should I look?',
+  2: '💡 Which technique?',
+  3: '💡 Which cell?',
+  4: '💡 Fill it in',
+};
+
+// Mistakes allowed before a new game is lost; null never ends it
+const STRIKE_LIMITS = [null, 3, 5] as const;
+
+const symmetryLabels: Record<ClueSymmetry, string> = {
+  none: 'None',
+  rotational: 'Rotational',
+  mirror: 'Mirror',
+  diagonal: 'Diagonal',
+};
+
+const entryModeLabels: Record<EntryMode, string> = {
+  value: 'Value',
+  centre: 'Centre',
+  corner: 'Corner',
+};
 
 const GameControls = memo(() => {
   const { 
     gameState, 
     newGame, 
+    cancelGeneration,
+    isGenerating,
     solvePuzzle, 
     getHint, 
+    dismissHint,
+    setEntryMode,
+    fillCandidates,
+    toggleAutoCandidates,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     resetGame, 
+    pauseGame,
+    resumeGame,
     elapsedTime, 
     progress 
   } = useSudoku();
 
+  const [selectedSize, setSelectedSize] = useState<GridSize>(gameState.gridConfig.size);
+  // Empty means a random puzzle
+  const [seedInput, setSeedInput] = useState('');
+  const [strikeLimit, setStrikeLimit] = useState<number | null>(gameState.strikeLimit);
+  const [assistLevel, setAssistLevel] = useState<AssistLevel>(gameState.assistLevel);
+  const [symmetry, setSymmetry] = useState<ClueSymmetry>('none');
+  const [minimal, setMinimal] = useState(false);
+  const [showSavedGames, setShowSavedGames] = useState(false);
+
+  // Keep the new-game pickers in sync when a game is started elsewhere
+  useEffect(() => {
+    setSelectedSize(gameState.gridConfig.size);
+  }, [gameState.gridConfig.size]);
+
+  useEffect(() => {
+    setStrikeLimit(gameState.strikeLimit);
+  }, [gameState.strikeLimit]);
+
+  useEffect(() => {
+    setAssistLevel(gameState.assistLevel);
+  }, [gameState.assistLevel]);
+
+  // Ctrl+Z / Ctrl+Y (and Ctrl+Shift+Z); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   const handleNewGame = useCallback((difficulty: Difficulty) => {
-    newGame(difficulty);
-  }, [newGame]);
+    newGame(selectedSize, difficulty, {
+      seed: seedInput ? Number(seedInput) : undefined,
+      strikeLimit,
+      assistLevel,
+      symmetry,
+      minimal,
+    });
+  }, [newGame, selectedSize, seedInput, strikeLimit, assistLevel, symmetry, minimal]);
 
-  const formatTime = useCallback((seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const handleSeedChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setSeedInput(event.target.value.replace(/\D/g, '').slice(0, SEED_DIGITS));
   }, []);
 
+  const { hint, hintLevel, hintsUsed, isGameOver } = gameState;
+  const isFinished = gameState.isComplete || isGameOver;
+  // A live count would check each entry against the solution, which the
+  // lower assist levels leave to the player; it's still kept for strikes and stats
+  const showMistakes = isFinished || hasAssist(gameState.assistLevel, 'mistakes');
+  const nextHintLevel: HintLevel = hint ? (Math.min(hintLevel + 1, 4) as HintLevel) : 1;
+  const totalHintsUsed = Object.values(hintsUsed).reduce((sum, count) => sum + count, 0);
+
   const buttonClasses = clsx(
     'px-4 py-2 rounded-lg font-semibold text-white transition-all duration-200',
     'glass-panel hover:shadow-lg transform hover:scale-105 active:scale-95',
@@ -51,7 +142,19 @@ const GameControls = memo(() => {
         <div className="grid grid-cols-2 gap-2 sm:gap-4 text-center">
           <div>
             <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide">Time</p>
-            <p className="text-lg sm:text-xl lg:text-2xl font-bold text-white">{formatTime(elapsedTime)}</p>
+            <div className="flex items-center justify-center gap-2">
+              <p className="text-lg sm:text-xl lg:text-2xl font-bold text-white">{formatTime(elapsedTime)}</p>
+              {!isFinished && (
+                <button
+                  onClick={gameState.isPaused ? resumeGame : pauseGame}
+                  className="rounded-md px-1.5 text-sm text-gray-300 hover:bg-gray-700/60 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-400/50"
+                  aria-label={gameState.isPaused ? 'Resume game' : 'Pause game'}
+                  data-testid="pause-button"
+                >
+                  {gameState.isPaused ? '▶' : '⏸'}
+                </button>
+              )}
+            </div>
           </div>
           <div>
             <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide">Progress</p>
@@ -59,6 +162,19 @@ const GameControls = memo(() => {
           </div>
         </div>
         
+        <p className="mt-1 text-center text-xs sm:text-sm text-gray-400">
+          {showMistakes ? (
+            <span className={clsx(gameState.mistakes > 0 && 'text-red-300')} data-testid="mistake-count">
+              Mistakes: {gameState.mistakes}
+              {gameState.strikeLimit !== null && ` / ${gameState.strikeLimit}`}
+            </span>
+          ) : gameState.strikeLimit !== null && (
+            <span data-testid="strike-limit">Mistake limit: {gameState.strikeLimit}</span>
+          )}
+          {(showMistakes || gameState.strikeLimit !== null) && ' · '}
+          <span data-testid="assist-level">Assist: {ASSIST_LEVEL_LABELS[gameState.assistLevel]}</span>
+        </p>
+        
         {/* Progress Bar */}
         <div className="mt-2 sm:mt-3 w-full bg-gray-700 rounded-full h-2">
           <motion.div 
@@ -68,53 +184,364 @@ const GameControls = memo(() => {
             transition={{ duration: 0.3 }}
           />
         </div>
+
+        {/* Puzzle Rating */}
+        {gameState.grade && (
+          <div className="mt-2 sm:mt-3 text-center text-xs sm:text-sm text-gray-300" data-testid="puzzle-grade">
+            <span className="text-gray-400 uppercase tracking-wide">Rating </span>
+            <span className="font-semibold text-white">
+              {getDifficultySettings(gameState.grade.difficulty, gameState.gridConfig).name}
+            </span>
+            <span className="text-gray-400"> · score {gameState.grade.score}</span>
+            <p className="text-gray-400" data-testid="puzzle-seed">
+              {getGridSizeLabel(gameState.gridConfig)} · seed {gameState.seed}
+            </p>
+            <p className="text-gray-400">
+              {gameState.grade.solved
+                ? `Needs ${LogicalSolver.getTechniqueName(gameState.grade.hardestTechnique ?? 'hidden-single')}`
+                : 'Needs guessing beyond known techniques'}
+            </p>
+          </div>
+        )}
       </div>
 
+      {/* Ambiguous puzzle warning */}
+      {gameState.solutionCount !== 1 && (
+        <div
+          className="glass-panel p-3 sm:p-4 rounded-lg text-center bg-yellow-500/20 border border-yellow-400/40"
+          data-testid="solution-count-warning"
+        >
+          <p className="text-yellow-300 text-sm sm:text-base font-semibold">
+            {gameState.solutionCount === 0
+              ? '⚠️ This puzzle has no solution'
+              : `⚠️ This puzzle has ${gameState.solutionCount} or more solutions`}
+          </p>
+        </div>
+      )}
+
       {/* Difficulty Selector */}
       <div className="glass-panel p-3 sm:p-4 rounded-lg">
         <h3 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">New Game</h3>
+
+        {/* Generation runs in the background and can be cancelled */}
+        {isGenerating && (
+          <div
+            className="flex items-center gap-3 mb-3 rounded-lg bg-blue-500/15 border border-blue-400/40 p-2"
+            data-testid="generating-indicator"
+          >
+            <LoadingSpinner size="sm" />
+            <span className="flex-1 text-sm text-gray-200">Generating puzzle…</span>
+            <button
+              onClick={cancelGeneration}
+              className="px-2 py-1 rounded-lg text-xs font-semibold text-gray-200 bg-gray-700/60 hover:bg-gray-700"
+              data-testid="cancel-generation-button"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {/* Grid size */}
+        <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">Size</p>
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          {GRID_SIZES.map((size) => (
+            <button
+              key={size}
+              onClick={() => setSelectedSize(size)}
+              className={clsx(
+                'px-2 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-blue-400/50',
+                selectedSize === size
+                  ? 'bg-blue-500/80 text-white'
+                  : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/60'
+              )}
+              aria-pressed={selectedSize === size}
+              data-testid={`grid-size-${size}`}
+            >
+              {getGridSizeLabel(getGridConfig(size))}
+            </button>
+          ))}
+        </div>
+
+        {/* Seed */}
+        <label htmlFor="seed-input" className="block text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">
+          Seed
+        </label>
+        <input
+          id="seed-input"
+          type="text"
+          inputMode="numeric"
+          value={seedInput}
+          onChange={handleSeedChange}
+          placeholder="Random"
+          className={clsx(
+            'w-full mb-3 px-3 py-1.5 rounded-lg text-sm text-white bg-gray-800/60 placeholder-gray-500',
+            'focus:outline-none focus:ring-2 focus:ring-blue-400/50'
+          )}
+          data-testid="seed-input"
+        />
+
+        {/* Clue layout; minimal puzzles remove clues one at a time, so they can't keep a symmetry */}
+        <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">Clue symmetry</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+          {(Object.keys(symmetryLabels) as ClueSymmetry[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setSymmetry(option)}
+              disabled={minimal}
+              className={clsx(
+                'px-2 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-blue-400/50',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                symmetry === option
+                  ? 'bg-blue-500/80 text-white'
+                  : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/60'
+              )}
+              aria-pressed={symmetry === option}
+              data-testid={`symmetry-${option}`}
+            >
+              {symmetryLabels[option]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setMinimal(on => !on)}
+          className={clsx(
+            'w-full mb-3 px-2 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200',
+            'focus:outline-none focus:ring-2 focus:ring-blue-400/50',
+            minimal
+              ? 'bg-blue-500/80 text-white'
+              : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/60'
+          )}
+          aria-pressed={minimal}
+          data-testid="minimal-toggle"
+        >
+          Minimal clues {minimal ? 'On' : 'Off'}
+        </button>
+
+        {/* Strike limit */}
+        <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">Mistake limit</p>
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {STRIKE_LIMITS.map((limit) => (
+            <button
+              key={limit ?? 'off'}
+              onClick={() => setStrikeLimit(limit)}
+              className={clsx(
+                'px-2 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-blue-400/50',
+                strikeLimit === limit
+                  ? 'bg-blue-500/80 text-white'
+                  : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/60'
+              )}
+              aria-pressed={strikeLimit === limit}
+              data-testid={`strike-limit-${limit ?? 'off'}`}
+            >
+              {limit === null ? 'Off' : `${limit} strikes`}
+            </button>
+          ))}
+        </div>
+
+        {/* Assist level */}
+        <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">Assist</p>
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          {ASSIST_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => setAssistLevel(level)}
+              className={clsx(
+                'px-2 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-blue-400/50',
+                assistLevel === level
+                  ? 'bg-blue-500/80 text-white'
+                  : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700/60'
+              )}
+              aria-pressed={assistLevel === level}
+              data-testid={`assist-level-${level}`}
+            >
+              {ASSIST_LEVEL_LABELS[level]}
+            </button>
+          ))}
+        </div>
+
+        {/* Difficulty */}
+        <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide mb-1">Difficulty</p>
         <div className="grid grid-cols-1 gap-2">
-          {difficultyOptions.map((option) => (
+          {DIFFICULTIES.map((difficulty) => {
+            const settings = getDifficultySettings(difficulty, getGridConfig(selectedSize));
+            const isCurrent = gameState.difficulty === difficulty && gameState.gridConfig.size === selectedSize;
+
+            return (
+              <motion.button
+                key={difficulty}
+                onClick={() => handleNewGame(difficulty)}
+                className={clsx(
+                  buttonClasses,
+                  `bg-gradient-to-r ${settings.color}`,
+                  'text-sm sm:text-base', // Responsive text size
+                  'py-2 sm:py-2.5', // Responsive padding
+                  isCurrent && 'ring-2 ring-white/50'
+                )}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                data-testid={`new-game-${difficulty}`}
+              >
+                {settings.name}
+              </motion.button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Game Actions */}
+      <div className="glass-panel p-3 sm:p-4 rounded-lg space-y-2 sm:space-y-3">
+        <h3 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">Actions</h3>
+        
+        <div className="grid grid-cols-2 gap-1 sm:gap-2">
+          <motion.button
+            onClick={undo}
+            disabled={!canUndo}
+            className={clsx(
+              buttonClasses,
+              'text-xs sm:text-sm py-2 bg-gradient-to-r from-slate-600 to-slate-700',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            title="Undo (Ctrl+Z)"
+            data-testid="undo-button"
+          >
+            ↶ Undo
+          </motion.button>
+          <motion.button
+            onClick={redo}
+            disabled={!canRedo}
+            className={clsx(
+              buttonClasses,
+              'text-xs sm:text-sm py-2 bg-gradient-to-r from-slate-600 to-slate-700',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            title="Redo (Ctrl+Y)"
+            data-testid="redo-button"
+          >
+            ↷ Redo
+          </motion.button>
+        </div>
+
+        {/* What digits write: values, centre marks or corner marks */}
+        <div className="grid grid-cols-3 gap-1 sm:gap-2" role="group" aria-label="Entry mode">
+          {(Object.keys(entryModeLabels) as EntryMode[]).map(mode => (
             <motion.button
-              key={option.value}
-              onClick={() => handleNewGame(option.value)}
+              key={mode}
+              onClick={() => setEntryMode(mode)}
               className={clsx(
                 buttonClasses,
-                `bg-gradient-to-r ${option.color}`,
-                'text-sm sm:text-base', // Responsive text size
-                'py-2 sm:py-2.5', // Responsive padding
-                gameState.difficulty === option.value && 'ring-2 ring-white/50'
+                'text-xs sm:text-sm py-2',
+                gameState.entryMode === mode
+                  ? 'bg-gradient-to-r from-sky-500 to-sky-600 ring-2 ring-white/50'
+                  : 'bg-gradient-to-r from-slate-600 to-slate-700'
               )}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
-              data-testid={`new-game-${option.value}`}
+              aria-pressed={gameState.entryMode === mode}
+              data-testid={`entry-mode-${mode}`}
             >
-              {option.label}
+              {entryModeLabels[mode]}
             </motion.button>
           ))}
         </div>
-      </div>
 
-      {/* Game Actions */}
-      <div className="glass-panel p-3 sm:p-4 rounded-lg space-y-2 sm:space-y-3">
-        <h3 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">Actions</h3>
-        
+        {/* Candidates as centre marks, once or kept up to date */}
+        <div className="grid grid-cols-2 gap-1 sm:gap-2">
+          <motion.button
+            onClick={fillCandidates}
+            disabled={isFinished || gameState.isPaused}
+            className={clsx(
+              buttonClasses,
+              'text-xs sm:text-sm py-2 bg-gradient-to-r from-slate-600 to-slate-700',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            data-testid="fill-candidates-button"
+          >
+            Fill candidates
+          </motion.button>
+          <motion.button
+            onClick={toggleAutoCandidates}
+            // Full assist keeps the candidates on for the whole game
+            disabled={gameState.assistLevel === 'full' || isFinished || gameState.isPaused}
+            className={clsx(
+              buttonClasses,
+              'text-xs sm:text-sm py-2',
+              gameState.autoCandidates
+                ? 'bg-gradient-to-r from-sky-500 to-sky-600 ring-2 ring-white/50'
+                : 'bg-gradient-to-r from-slate-600 to-slate-700',
+              'disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none'
+            )}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            aria-pressed={gameState.autoCandidates}
+            data-testid="auto-candidates-toggle"
+          >
+            Auto {gameState.autoCandidates ? 'On' : 'Off'}
+          </motion.button>
+        </div>
+
         <motion.button
           onClick={getHint}
-          disabled={gameState.isComplete}
+          disabled={isFinished || gameState.isPaused}
           className={clsx(
             buttonClasses,
             'w-full bg-gradient-to-r from-purple-500 to-purple-600',
             'text-sm sm:text-base py-2 sm:py-2.5', // Responsive sizing
             'disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none'
           )}
-          whileHover={!gameState.isComplete ? { scale: 1.02 } : {}}
-          whileTap={!gameState.isComplete ? { scale: 0.98 } : {}}
+          whileHover={!isFinished && !gameState.isPaused ? { scale: 1.02 } : {}}
+          whileTap={!isFinished && !gameState.isPaused ? { scale: 0.98 } : {}}
           data-testid="hint-button"
         >
-          💡 Get Hint
+          {hintButtonLabels[nextHintLevel]}
         </motion.button>
 
+        {/* Pending hint, revealed one level at a time */}
+        {hint && (
+          <div
+            className="rounded-lg bg-purple-500/15 border border-purple-400/40 p-3 space-y-2"
+            data-testid="hint-panel"
+          >
+            <p className="text-sm text-gray-200" data-testid="hint-region">
+              {hint.unit
+                ? `Look at ${LogicalSolver.getUnitName(hint.unit)}.`
+                : 'Look at the highlighted cells.'}
+            </p>
+            {hintLevel >= 2 && (
+              <p className="text-sm text-gray-200" data-testid="hint-technique">
+                {hint.technique
+                  ? `Try: ${LogicalSolver.getTechniqueName(hint.technique)}`
+                  : 'No known technique applies here.'}
+              </p>
+            )}
+            {hintLevel >= 3 && hint.descriptions.map((description, index) => (
+              <p key={index} className="text-sm text-gray-300" data-testid="hint-description">{description}</p>
+            ))}
+            <button
+              onClick={dismissHint}
+              className="w-full px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-200 bg-gray-700/60 hover:bg-gray-700"
+              data-testid="dismiss-hint-button"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {totalHintsUsed > 0 && (
+          <p className="text-xs text-gray-400 text-center" data-testid="hints-used">
+            Hints used: {totalHintsUsed}
+          </p>
+        )}
+
         <motion.button
           onClick={resetGame}
           className={clsx(
@@ -131,23 +558,68 @@ const GameControls = memo(() => {
 
         <motion.button
           onClick={solvePuzzle}
-          disabled={gameState.isComplete}
+          disabled={isFinished}
           className={clsx(
             buttonClasses,
             'w-full bg-gradient-to-r from-orange-500 to-orange-600',
             'text-sm sm:text-base py-2 sm:py-2.5',
             'disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none'
           )}
-          whileHover={!gameState.isComplete ? { scale: 1.02 } : {}}
-          whileTap={!gameState.isComplete ? { scale: 0.98 } : {}}
+          whileHover={!isFinished ? { scale: 1.02 } : {}}
+          whileTap={!isFinished ? { scale: 0.98 } : {}}
           data-testid="solve-button"
         >
           🔍 Solve
         </motion.button>
+
+        <motion.button
+          onClick={() => setShowSavedGames(true)}
+          className={clsx(
+            buttonClasses,
+            'w-full bg-gradient-to-r from-slate-600 to-slate-700',
+            'text-sm sm:text-base py-2 sm:py-2.5'
+          )}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          data-testid="saved-games-button"
+        >
+          📂 Saved games
+        </motion.button>
+
+        <Link
+          href="/stats"
+          className={clsx(
+            buttonClasses,
+            'block w-full text-center bg-gradient-to-r from-slate-600 to-slate-700',
+            'text-sm sm:text-base py-2 sm:py-2.5'
+          )}
+          data-testid="stats-link"
+        >
+          📊 Statistics
+        </Link>
       </div>
 
+      <AnimatePresence>
+        {showSavedGames && <SavedGamesScreen onClose={() => setShowSavedGames(false)} />}
+      </AnimatePresence>
+
       {/* Game Status */}
-      {gameState.isComplete && (
+      {isGameOver && (
+        <motion.div
+          className="glass-panel p-3 sm:p-4 rounded-lg text-center bg-gradient-to-r from-red-500/20 to-orange-500/20"
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", stiffness: 300, damping: 30 }}
+          data-testid="game-over-panel"
+        >
+          <p className="text-xl sm:text-2xl font-bold text-red-400 mb-2">💥 Game over</p>
+          <p className="text-gray-300 text-sm sm:text-base">
+            {gameState.mistakes} mistakes after {formatTime(elapsedTime)}. Reset to try the puzzle again.
+          </p>
+        </motion.div>
+      )}
+
+      {gameState.isComplete && !isGameOver && (
         <motion.div
           className="glass-panel p-3 sm:p-4 rounded-lg text-center bg-gradient-to-r from-green-500/20 to-blue-500/20"
           initial={{ scale: 0.8, opacity: 0 }}
@@ -155,7 +627,12 @@ const GameControls = memo(() => {
           transition={{ type: "spring", stiffness: 300, damping: 30 }}
         >
           <p className="text-xl sm:text-2xl font-bold text-green-400 mb-2">🎉 Congratulations!</p>
-          <p className="text-gray-300 text-sm sm:text-base">You completed the puzzle in {formatTime(elapsedTime)}!</p>
+          <p className="text-gray-300 text-sm sm:text-base">
+            {gameState.usedSolve ? 'Solution revealed after' : 'You completed the puzzle in'} {formatTime(elapsedTime)}!
+          </p>
+          <Link href="/stats" className="inline-block mt-2 text-sm text-blue-300 hover:text-blue-200">
+            See your statistics →
+          </Link>
         </motion.div>
       )}
     </motion.div>
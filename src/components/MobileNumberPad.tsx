@@ -1,19 +1,59 @@
 'use client';
 
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSudoku } from '@/context/SudokuContext';
 import { useTouch, useScreenSize } from '@/hooks/useTouch';
+import { EntryMode } from '@/types/sudoku';
+import { SudokuSolver } from '@/utils/sudokuSolver';
 import clsx from 'clsx';
 
+// The mode button cycles value → centre → corner
+const nextEntryMode: Record<EntryMode, EntryMode> = {
+  value: 'centre',
+  centre: 'corner',
+  corner: 'value',
+};
+
+const entryModeButtons: Record<EntryMode, { icon: string; label: string; instructions: string }> = {
+  value: { icon: '✏️', label: 'Switch to centre marks', instructions: 'Tap a number or ✕ to clear' },
+  centre: { icon: '◉', label: 'Switch to corner marks', instructions: 'Tap numbers for centre marks, ✕ to clear' },
+  corner: { icon: '◰', label: 'Switch to values', instructions: 'Tap numbers for corner marks, ✕ to clear' },
+};
+
+/**
+ * Button size and row width per grid size, smallest grid first. Bigger grids
+ * get smaller buttons in wider rows so 16 or 25 symbols fit a narrow screen.
+ * A grid uses the first tier whose maxNumber covers its symbols.
+ */
+const PAD_SIZE_TIERS = [
+  { maxNumber: 9, minColumns: 5, button: 'w-12 h-12 sm:w-14 sm:h-14', text: 'text-lg sm:text-xl', gap: 'gap-2 sm:gap-3' },
+  { maxNumber: 16, minColumns: 7, button: 'w-10 h-10 sm:w-12 sm:h-12', text: 'text-base sm:text-lg', gap: 'gap-1.5 sm:gap-2' },
+  { maxNumber: 25, minColumns: 8, button: 'w-9 h-9 sm:w-11 sm:h-11', text: 'text-sm sm:text-base', gap: 'gap-1 sm:gap-2' },
+];
+
+const getPadSizeTier = (maxNumber: number) =>
+  PAD_SIZE_TIERS.find(tier => maxNumber <= tier.maxNumber) || PAD_SIZE_TIERS[PAD_SIZE_TIERS.length - 1];
+
 const MobileNumberPad = memo(() => {
-  const { gameState, makeMove, isInitialCell } = useSudoku();
+  const { gameState, makeMove, setEntryMode, undo, redo, canUndo, canRedo, isInitialCell } = useSudoku();
   const isTouch = useTouch();
   const { isMobile, isTablet } = useScreenSize();
-  const { selectedCell } = gameState;
+  const { selectedCells, gridConfig, entryMode, grid } = gameState;
+  // The pad writes to the whole selection through its most recent cell
+  const selectedCell = selectedCells[selectedCells.length - 1];
+
+  // One button per symbol plus the clear and control buttons, wrapped at the
+  // box width or the tier's row width, whichever is wider
+  const numbers = Array.from({ length: gridConfig.maxNumber }, (_, i) => i + 1);
+  const sizeTier = getPadSizeTier(gridConfig.maxNumber);
+  const columns = Math.max(gridConfig.subGridCols, sizeTier.minColumns);
 
-  // Show number pad only on touch devices (mobile/tablet) and when a cell is selected
-  const isVisible = isTouch && (isMobile || isTablet) && selectedCell && !isInitialCell(selectedCell.row, selectedCell.col);
+  const remainingCounts = useMemo(() => SudokuSolver.getRemainingCounts(grid, gridConfig), [grid, gridConfig]);
+
+  // Show number pad only on touch devices (mobile/tablet) and when an editable cell is selected
+  const isVisible = isTouch && (isMobile || isTablet) && !gameState.isPaused &&
+    selectedCells.some(({ row, col }) => !isInitialCell(row, col));
 
   const handleNumberSelect = useCallback((number: number | null) => {
     if (selectedCell) {
@@ -22,11 +62,24 @@ const MobileNumberPad = memo(() => {
   }, [selectedCell, makeMove]);
 
   const buttonClasses = clsx(
-    'w-12 h-12 sm:w-14 sm:h-14 flex items-center justify-center',
-    'text-lg sm:text-xl font-bold rounded-lg',
+    sizeTier.button,
+    'relative flex items-center justify-center',
+    'font-bold rounded-lg',
     'bg-gray-800/60 border border-gray-600/50 text-white',
     'active:bg-gray-700/80 transition-all duration-150',
-    'touch-manipulation select-none'
+    'touch-manipulation select-none',
+    // Smaller digits hint that they go in as marks
+    entryMode === 'value' ? sizeTier.text : 'text-sm sm:text-base text-sky-200'
+  );
+
+  const numberButtonClasses = clsx(
+    buttonClasses,
+    'disabled:opacity-30 disabled:cursor-not-allowed'
+  );
+
+  const modeButtonClasses = clsx(
+    buttonClasses,
+    entryMode !== 'value' && 'bg-sky-600/70 border-sky-400/70'
   );
 
   const clearButtonClasses = clsx(
@@ -34,6 +87,11 @@ const MobileNumberPad = memo(() => {
     'bg-red-600/60 border-red-500/50 text-red-100'
   );
 
+  const historyButtonClasses = clsx(
+    buttonClasses,
+    'disabled:opacity-40'
+  );
+
   return (
     <AnimatePresence>
       {isVisible && (
@@ -46,20 +104,35 @@ const MobileNumberPad = memo(() => {
           data-testid="mobile-number-pad"
         >
           <div className="glass-panel p-3 sm:p-4 rounded-2xl shadow-2xl">
-            <div className="grid grid-cols-5 gap-2 sm:gap-3">
-              {/* Numbers 1-9 */}
-              {Array.from({ length: 9 }, (_, i) => i + 1).map((number) => (
-                <motion.button
-                  key={number}
-                  onClick={() => handleNumberSelect(number)}
-                  className={buttonClasses}
-                  whileTap={{ scale: 0.95 }}
-                  whileHover={{ scale: 1.05 }}
-                  data-testid={`number-pad-${number}`}
-                >
-                  {number}
-                </motion.button>
-              ))}
+            <div
+              className={clsx('grid', sizeTier.gap)}
+              style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+              {/* Numbers 1..maxNumber with how many are left to place; all placed disables them */}
+              {numbers.map((number) => {
+                const remaining = remainingCounts[number - 1];
+
+                return (
+                  <motion.button
+                    key={number}
+                    onClick={() => handleNumberSelect(number)}
+                    disabled={remaining === 0}
+                    className={numberButtonClasses}
+                    whileTap={remaining > 0 ? { scale: 0.95 } : {}}
+                    whileHover={remaining > 0 ? { scale: 1.05 } : {}}
+                    aria-label={`${number}, ${remaining} left`}
+                    data-testid={`number-pad-${number}`}
+                  >
+                    {number}
+                    <span
+                      className="absolute top-0.5 right-1 text-[9px] sm:text-[10px] font-medium leading-none text-gray-400"
+                      data-testid={`number-pad-remaining-${number}`}
+                    >
+                      {remaining}
+                    </span>
+                  </motion.button>
+                );
+              })}
               
               {/* Clear button */}
               <motion.button
@@ -71,11 +144,47 @@ const MobileNumberPad = memo(() => {
               >
                 ✕
               </motion.button>
+
+              {/* Entry mode */}
+              <motion.button
+                onClick={() => setEntryMode(nextEntryMode[entryMode])}
+                className={modeButtonClasses}
+                whileTap={{ scale: 0.95 }}
+                whileHover={{ scale: 1.05 }}
+                aria-label={entryModeButtons[entryMode].label}
+                data-testid="number-pad-mode"
+              >
+                {entryModeButtons[entryMode].icon}
+              </motion.button>
+
+              {/* Undo / redo */}
+              <motion.button
+                onClick={undo}
+                disabled={!canUndo}
+                className={historyButtonClasses}
+                whileTap={{ scale: 0.95 }}
+                whileHover={{ scale: 1.05 }}
+                aria-label="Undo"
+                data-testid="number-pad-undo"
+              >
+                ↶
+              </motion.button>
+              <motion.button
+                onClick={redo}
+                disabled={!canRedo}
+                className={historyButtonClasses}
+                whileTap={{ scale: 0.95 }}
+                whileHover={{ scale: 1.05 }}
+                aria-label="Redo"
+                data-testid="number-pad-redo"
+              >
+                ↷
+              </motion.button>
             </div>
             
             {/* Instructions */}
             <p className="text-center text-white/60 text-xs sm:text-sm mt-2">
-              Tap a number or ✕ to clear
+              {entryModeButtons[entryMode].instructions}
             </p>
           </div>
         </motion.div>
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { memo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSudoku } from '@/context/SudokuContext';
+import { getDifficultySettings, getGridSizeLabel } from '@/utils/gridConfig';
+import { formatTime } from '@/utils/time';
+import { readClock } from '@/utils/clock';
+import clsx from 'clsx';
+
+const ResumeGamePrompt = memo(() => {
+  const { resumableGame, continueSavedGame, discardSavedGame } = useSudoku();
+
+  const buttonClasses = clsx(
+    'flex-1 py-2.5 px-4 rounded-lg font-medium text-white text-sm sm:text-base',
+    'transition-all duration-200 touch-manipulation'
+  );
+
+  return (
+    <AnimatePresence>
+      {resumableGame && (
+        <motion.div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="resume-prompt-title"
+          data-testid="resume-prompt"
+        >
+          <motion.div
+            className="glass-panel p-5 sm:p-6 rounded-xl w-full max-w-sm space-y-4"
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+          >
+            <h2 id="resume-prompt-title" className="text-xl font-bold text-white">
+              Welcome back
+            </h2>
+            <p className="text-gray-300 text-sm sm:text-base">
+              You have an unfinished{' '}
+              <span className="font-semibold text-white">
+                {getGridSizeLabel(resumableGame.gridConfig)}{' '}
+                {getDifficultySettings(resumableGame.difficulty, resumableGame.gridConfig).name}
+              </span>{' '}
+              puzzle, {formatTime(Math.floor(readClock(resumableGame.clock) / 1000))} in.
+            </p>
+
+            <div className="flex gap-2 sm:gap-3">
+              <motion.button
+                onClick={continueSavedGame}
+                className={clsx(buttonClasses, 'bg-gradient-to-r from-green-500 to-green-600')}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                data-testid="continue-game-button"
+              >
+                Continue
+              </motion.button>
+              <motion.button
+                onClick={discardSavedGame}
+                className={clsx(buttonClasses, 'bg-gradient-to-r from-slate-600 to-slate-700')}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                data-testid="discard-saved-game-button"
+              >
+                New game
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
+
+ResumeGamePrompt.displayName = 'ResumeGamePrompt';
+
+export { ResumeGamePrompt };
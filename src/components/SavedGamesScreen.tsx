@@ -0,0 +1,160 @@
+'use client';
+
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { SavedGameSummary } from '@/types/sudoku';
+import { useSudoku } from '@/context/SudokuContext';
+import { GameLibrary } from '@/utils/gameLibrary';
+import { getDifficultySettings, getGridSizeLabel } from '@/utils/gridConfig';
+import { formatTime } from '@/utils/time';
+import { LoadingSpinner } from './LoadingSpinner';
+import clsx from 'clsx';
+
+interface SavedGamesScreenProps {
+  onClose: () => void;
+}
+
+const SavedGamesScreen = memo(({ onClose }: SavedGamesScreenProps) => {
+  const { gameState, loadGame } = useSudoku();
+  // Null while the list is loading
+  const [games, setGames] = useState<SavedGameSummary[] | null>(null);
+
+  const refresh = useCallback(() => {
+    GameLibrary.list().then(setGames, () => setGames([]));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const handleResume = useCallback((id: string) => {
+    if (id === gameState.id) {
+      onClose();
+      return;
+    }
+
+    GameLibrary.load(id).then(game => {
+      if (!game) return refresh(); // Gone or unreadable
+      loadGame(game);
+      onClose();
+    }, refresh);
+  }, [gameState.id, loadGame, onClose, refresh]);
+
+  const handleDuplicate = useCallback((id: string) => {
+    GameLibrary.duplicate(id).then(refresh, refresh);
+  }, [refresh]);
+
+  const handleDelete = useCallback((id: string) => {
+    GameLibrary.remove(id).then(refresh, refresh);
+  }, [refresh]);
+
+  const actionClasses = clsx(
+    'px-2.5 py-1.5 rounded-md text-xs sm:text-sm font-medium text-white',
+    'transition-all duration-200 touch-manipulation'
+  );
+
+  // Portalled so the overlay isn't positioned by the animated controls panel
+  return createPortal(
+    <motion.div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="saved-games-title"
+      data-testid="saved-games-screen"
+    >
+      <motion.div
+        className="glass-panel p-4 sm:p-6 rounded-xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="saved-games-title" className="text-xl font-bold text-white">Saved games</h2>
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white text-lg"
+            aria-label="Close saved games"
+            data-testid="saved-games-close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {games === null ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : games.length === 0 ? (
+          <p className="text-gray-300 text-sm text-center py-8">
+            {GameLibrary.isAvailable()
+              ? 'No games in progress yet.'
+              : 'This browser can\'t keep saved games.'}
+          </p>
+        ) : (
+          <ul className="space-y-2 overflow-y-auto">
+            {games.map(game => {
+              const isCurrent = game.id === gameState.id;
+
+              return (
+                <li
+                  key={game.id}
+                  className={clsx(
+                    'p-3 rounded-lg border bg-gray-800/40',
+                    isCurrent ? 'border-sky-400/60' : 'border-gray-600/50'
+                  )}
+                  data-testid={`saved-game-${game.id}`}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-white font-semibold">
+                      {getGridSizeLabel(game.gridConfig)}{' '}
+                      {getDifficultySettings(game.difficulty, game.gridConfig).name}
+                      {isCurrent && <span className="ml-2 text-xs text-sky-300">Playing</span>}
+                    </p>
+                    <p className="text-xs text-gray-400">{new Date(game.lastPlayed).toLocaleString()}</p>
+                  </div>
+                  <p className="text-sm text-gray-300 mt-1">
+                    {game.progress}% filled · {formatTime(Math.floor(game.elapsedMs / 1000))}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => handleResume(game.id)}
+                      className={clsx(actionClasses, 'bg-green-600/80 hover:bg-green-600')}
+                      data-testid={`saved-game-resume-${game.id}`}
+                    >
+                      Resume
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(game.id)}
+                      className={clsx(actionClasses, 'bg-slate-600/80 hover:bg-slate-600')}
+                      data-testid={`saved-game-duplicate-${game.id}`}
+                    >
+                      Duplicate
+                    </button>
+                    {/* The game on the board would be saved straight back */}
+                    {!isCurrent && (
+                      <button
+                        onClick={() => handleDelete(game.id)}
+                        className={clsx(actionClasses, 'bg-red-600/70 hover:bg-red-600')}
+                        data-testid={`saved-game-delete-${game.id}`}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>,
+    document.body
+  );
+});
+
+SavedGamesScreen.displayName = 'SavedGamesScreen';
+
+export { SavedGamesScreen };
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { GameRecord } from '@/types/sudoku';
+import { getDifficultySettings, getGridConfig, getGridSizeLabel } from '@/utils/gridConfig';
+import { loadGameRecords, summarizeStats } from '@/utils/stats';
+import { formatTime } from '@/utils/time';
+import { ASSIST_LEVELS, ASSIST_LEVEL_LABELS } from '@/utils/assist';
+
+// Most recent games listed under the totals
+const RECENT_GAMES = 10;
+
+const formatDuration = (ms: number | null) => (ms === null ? '—' : formatTime(Math.round(ms / 1000)));
+
+const StatsDashboard = memo(() => {
+  // Read after mount: records live in localStorage, which the server can't see
+  const [records, setRecords] = useState<GameRecord[] | null>(null);
+
+  useEffect(() => {
+    setRecords(loadGameRecords());
+  }, []);
+
+  const stats = useMemo(() => summarizeStats(records ?? []), [records]);
+  const recentGames = useMemo(
+    () => [...(records ?? [])].sort((a, b) => b.finishedAt - a.finishedAt).slice(0, RECENT_GAMES),
+    [records]
+  );
+
+  if (records === null) return null;
+
+  const totals = [
+    { label: 'Played', value: stats.played, testId: 'stats-played' },
+    { label: 'Win rate', value: `${stats.winRate}%`, testId: 'stats-win-rate' },
+    { label: 'Current streak', value: stats.currentStreak, testId: 'stats-current-streak' },
+    { label: 'Longest streak', value: stats.longestStreak, testId: 'stats-longest-streak' },
+    { label: 'Mistakes per game', value: stats.averageMistakes, testId: 'stats-average-mistakes' },
+  ];
+
+  return (
+    <motion.div
+      className="space-y-4 sm:space-y-6 max-w-3xl mx-auto w-full"
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.3 }}
+      data-testid="stats-dashboard"
+    >
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 sm:gap-4">
+        {totals.map(({ label, value, testId }) => (
+          <div key={label} className="glass-panel p-3 sm:p-4 rounded-lg text-center">
+            <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide">{label}</p>
+            <p className="text-xl sm:text-2xl font-bold text-white" data-testid={testId}>{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {stats.played === 0 ? (
+        <p className="glass-panel p-6 rounded-lg text-center text-gray-300">
+          Finish a game and your statistics will show up here.
+        </p>
+      ) : (
+        <>
+          <div className="glass-panel p-3 sm:p-4 rounded-lg">
+            <h2 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">Wins by assist level</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center" data-testid="stats-wins-by-assist">
+              {ASSIST_LEVELS.map(level => (
+                <div key={level}>
+                  <p className="text-xs text-gray-400 uppercase tracking-wide">{ASSIST_LEVEL_LABELS[level]}</p>
+                  <p className="text-lg font-bold text-white">{stats.winsByAssist[level]}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-panel p-3 sm:p-4 rounded-lg overflow-x-auto">
+            <h2 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">By size and difficulty</h2>
+            <table className="w-full text-sm text-left text-gray-300" data-testid="stats-categories">
+              <thead className="text-xs uppercase tracking-wide text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3">Size</th>
+                  <th className="py-1 pr-3">Difficulty</th>
+                  <th className="py-1 pr-3 text-right">Completed</th>
+                  <th className="py-1 pr-3 text-right">Best</th>
+                  <th className="py-1 text-right">Average</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.categories.map(category => {
+                  const gridConfig = getGridConfig(category.size);
+                  const settings = getDifficultySettings(category.difficulty, gridConfig);
+
+                  return (
+                    <tr key={`${category.size}-${category.difficulty}`} className="border-t border-gray-700/60">
+                      <td className="py-1.5 pr-3 text-white">{getGridSizeLabel(gridConfig)}</td>
+                      <td className="py-1.5 pr-3">{settings.name}</td>
+                      <td className="py-1.5 pr-3 text-right">{category.won} / {category.played}</td>
+                      <td className="py-1.5 pr-3 text-right">{formatDuration(category.bestTimeMs)}</td>
+                      <td className="py-1.5 text-right">{formatDuration(category.averageTimeMs)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="glass-panel p-3 sm:p-4 rounded-lg">
+            <h2 className="text-base sm:text-lg font-semibold text-white mb-2 sm:mb-3">Recent games</h2>
+            <ul className="space-y-1.5 text-sm text-gray-300">
+              {recentGames.map(record => (
+                <li key={record.id} className="flex flex-wrap justify-between gap-x-3">
+                  <span className="text-white">
+                    {getGridSizeLabel(getGridConfig(record.size))}{' '}
+                    {getDifficultySettings(record.difficulty, getGridConfig(record.size)).name}
+                    <span className={record.won ? 'text-green-400' : record.struckOut ? 'text-red-400' : 'text-orange-400'}>
+                      {' '}· {record.won ? 'Solved' : record.struckOut ? 'Out of strikes' : 'Revealed'}
+                    </span>
+                  </span>
+                  <span>
+                    {formatDuration(record.elapsedMs)} · {record.hintsUsed} hints · {record.mistakes} mistakes ·{' '}
+                    {new Date(record.finishedAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+});
+
+StatsDashboard.displayName = 'StatsDashboard';
+
+export { StatsDashboard };
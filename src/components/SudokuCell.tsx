@@ -3,6 +3,48 @@
 import React, { memo, useCallback, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import clsx from 'clsx';
+import { maskToDigits } from '@/utils/bitmask';
+import { DIGIT_BUFFER_MS, getLetterValue, getNavigationTarget, pushDigit } from '@/utils/keyboard';
+import { SelectionMode } from '@/types/sudoku';
+
+/**
+ * Cell, value and note text sizes per grid size, smallest grid first.
+ * A grid uses the first tier whose maxNumber covers its symbols.
+ */
+const CELL_SIZE_TIERS = [
+  { maxNumber: 4, cell: 'w-12 h-12 sm:w-16 sm:h-16 lg:w-20 lg:h-20', text: 'text-lg sm:text-xl lg:text-2xl', note: 'text-[10px] sm:text-xs lg:text-sm' },
+  { maxNumber: 6, cell: 'w-10 h-10 sm:w-12 sm:h-12 lg:w-14 lg:h-14', text: 'text-sm sm:text-base lg:text-lg', note: 'text-[8px] sm:text-[10px] lg:text-xs' },
+  { maxNumber: 9, cell: 'w-9 h-9 sm:w-11 sm:h-11 lg:w-12 lg:h-12', text: 'text-sm sm:text-base lg:text-lg', note: 'text-[7px] sm:text-[9px] lg:text-[10px]' },
+  { maxNumber: 12, cell: 'w-7 h-7 sm:w-9 sm:h-9 lg:w-11 lg:h-11', text: 'text-xs sm:text-sm lg:text-base', note: 'text-[6px] sm:text-[7px] lg:text-[8px]' },
+  { maxNumber: 16, cell: 'w-6 h-6 sm:w-8 sm:h-8 lg:w-10 lg:h-10', text: 'text-xs sm:text-sm lg:text-base', note: 'text-[6px] lg:text-[7px]' },
+  { maxNumber: 25, cell: 'w-5 h-5 sm:w-6 sm:h-6 lg:w-8 lg:h-8', text: 'text-[10px] sm:text-xs lg:text-sm', note: 'text-[4px] sm:text-[5px] lg:text-[6px]' },
+];
+
+// Grids up to this size keep the 44px accessible touch target
+const TOUCH_TARGET_MAX_NUMBER = 16;
+
+const getCellSizeTier = (maxNumber: number) =>
+  CELL_SIZE_TIERS.find(tier => maxNumber <= tier.maxNumber) || CELL_SIZE_TIERS[CELL_SIZE_TIERS.length - 1];
+
+// Corner marks fill the corners first, then the edge midpoints; the last slot takes any overflow
+const CORNER_MARK_SLOTS = [
+  'top-0 left-0.5',
+  'top-0 right-0.5',
+  'bottom-0 left-0.5',
+  'bottom-0 right-0.5',
+  'top-0 left-1/2 -translate-x-1/2',
+  'bottom-0 left-1/2 -translate-x-1/2',
+  'top-1/2 left-0.5 -translate-y-1/2',
+  'top-1/2 right-0.5 -translate-y-1/2',
+];
+
+const getCornerMarkSlots = (digits: number[]) =>
+  digits.length <= CORNER_MARK_SLOTS.length
+    ? digits.map(String)
+    : [
+      ...digits.slice(0, CORNER_MARK_SLOTS.length - 1).map(String),
+      digits.slice(CORNER_MARK_SLOTS.length - 1).join(' '),
+    ];
 
 interface SudokuCellProps {
   row: number;
@@ -11,8 +53,26 @@ interface SudokuCellProps {
   isInitial: boolean;
   isSelected: boolean;
   hasError: boolean;
+  // Value disagrees with the solution
+  isMistake?: boolean;
+  // In the selected cell's row, column or box
+  isPeer?: boolean;
+  // Holds the same digit as the selected cell
+  isSameDigit?: boolean;
+  // The selected cell's digit, when it is among this cell's pencil marks
+  highlightedMark?: number;
+  // Pencil marks as digit bitmasks, shown while the cell is empty
+  centreMarks?: number;
+  cornerMarks?: number;
+  isHintRegion?: boolean;
+  isHinted?: boolean;
+  isHintTarget?: boolean;
   maxNumber: number;
+  // Rows and columns to navigate; the symbol count unless given
+  size?: number;
   onSelect: (row: number, col: number) => void;
+  // Shift/ctrl-click and dragging across cells
+  onExtendSelection?: (row: number, col: number, mode: SelectionMode) => void;
   onValueChange: (row: number, col: number, value: number | null) => void;
 }
 
@@ -23,15 +83,81 @@ const SudokuCell = memo(({
   isInitial,
   isSelected,
   hasError,
+  isMistake = false,
+  isPeer = false,
+  isSameDigit = false,
+  highlightedMark,
+  centreMarks = 0,
+  cornerMarks = 0,
+  isHintRegion = false,
+  isHinted = false,
+  isHintTarget = false,
   maxNumber,
+  size = maxNumber,
   onSelect,
+  onExtendSelection,
   onValueChange,
 }: SudokuCellProps) => {
   const cellRef = useRef<HTMLDivElement>(null);
+  // Digits typed towards a two-digit value, entered on timeout or Enter
+  const digitBuffer = useRef('');
+  const bufferTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const handleClick = useCallback(() => {
+  const clearBuffer = useCallback(() => {
+    if (bufferTimeout.current) clearTimeout(bufferTimeout.current);
+    bufferTimeout.current = null;
+    digitBuffer.current = '';
+  }, []);
+
+  const commitBuffer = useCallback(() => {
+    const value = Number(digitBuffer.current);
+    clearBuffer();
+    if (value) onValueChange(row, col, value);
+  }, [row, col, clearBuffer, onValueChange]);
+
+  // A digit still waiting when the cell goes away is dropped
+  useEffect(() => clearBuffer, [clearBuffer]);
+
+  // Set when pointer-down already selected the cell, so the click that
+  // follows doesn't select it a second time (and undo a ctrl-click toggle)
+  const selectedOnPointerDown = useRef(false);
+
+  const selectWithModifiers = useCallback((e: React.MouseEvent) => {
+    if (onExtendSelection && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      onExtendSelection(row, col, e.shiftKey ? 'add' : 'toggle');
+      return;
+    }
     onSelect(row, col);
-  }, [row, col, onSelect]);
+  }, [row, col, onSelect, onExtendSelection]);
+
+  const handleClick = useCallback((e: React.MouseEvent) => {
+    if (selectedOnPointerDown.current) {
+      selectedOnPointerDown.current = false;
+      return;
+    }
+    selectWithModifiers(e);
+  }, [selectWithModifiers]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    // Touch pointers are captured by the cell they start on; release so
+    // the cells a finger drags across get pointerenter too
+    if (e.currentTarget.hasPointerCapture?.(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+
+    // A drag starts here: select this cell now, since after a drag the
+    // click lands on the grid rather than on any one cell
+    if (e.button !== 0) return;
+    selectedOnPointerDown.current = true;
+    selectWithModifiers(e);
+  }, [selectWithModifiers]);
+
+  const handlePointerEnter = useCallback((e: React.PointerEvent) => {
+    // Primary button or finger still down: the pointer is dragging a selection
+    if (onExtendSelection && e.buttons & 1) {
+      onExtendSelection(row, col, 'add');
+    }
+  }, [row, col, onExtendSelection]);
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     // Prevent scrolling when touching the cell
@@ -40,56 +166,57 @@ const SudokuCell = memo(({
   }, [row, col, onSelect]);
 
   const handleDivKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    const key = e.key;
+    const isShortcut = e.ctrlKey || e.metaKey;
+
+    // Arrows wrap around the grid; Home/End and PageUp/PageDown jump to its edges.
+    // Clues can be moved through, just not changed.
+    const target = getNavigationTarget({ row, col }, key, size, isShortcut);
+    if (target) {
+      e.preventDefault();
+      commitBuffer();
+      if (target.row !== row || target.col !== col) onSelect(target.row, target.col);
+      return;
+    }
+
     if (isInitial) {
       e.preventDefault();
       return;
     }
 
-    const key = e.key;
-    
-    // Handle numbers based on maxNumber (1-4, 1-6, or 1-16)
-    const numberRegex = maxNumber <= 9 ? new RegExp(`^[1-${maxNumber}]$`) : /^[1-9]$/;
-    if (numberRegex.test(key)) {
+    // Digits up to maxNumber; on grids above 9 a digit that could start a
+    // two-digit value waits briefly for the second one
+    if (/^[0-9]$/.test(key)) {
+      e.preventDefault();
+      const { value, buffer } = pushDigit(digitBuffer.current, key, maxNumber);
+      clearBuffer();
+      if (value !== null) onValueChange(row, col, value);
+      if (buffer) {
+        digitBuffer.current = buffer;
+        bufferTimeout.current = setTimeout(commitBuffer, DIGIT_BUFFER_MS);
+      }
+      return;
+    }
+
+    // Letters for values above 9: A = 10, B = 11, ...
+    const letterValue = isShortcut ? null : getLetterValue(key, maxNumber);
+    if (letterValue !== null) {
       e.preventDefault();
-      onValueChange(row, col, parseInt(key));
+      clearBuffer();
+      onValueChange(row, col, letterValue);
     }
-    // For 16x16, also handle two-digit numbers like 10-16 via special keys
-    else if (maxNumber === 16 && key === '0') {
+    // Enter settles a waiting digit straight away
+    else if (key === 'Enter') {
       e.preventDefault();
-      // Allow 0 to represent 10 for 16x16 grids
-      onValueChange(row, col, 10);
+      commitBuffer();
     }
     // Handle delete/backspace
     else if (key === 'Delete' || key === 'Backspace' || key === ' ') {
       e.preventDefault();
+      clearBuffer();
       onValueChange(row, col, null);
     }
-    // Handle arrow keys for navigation
-    else if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(key)) {
-      e.preventDefault();
-      let newRow = row;
-      let newCol = col;
-      
-      switch (key) {
-        case 'ArrowUp':
-          newRow = Math.max(0, row - 1);
-          break;
-        case 'ArrowDown':
-          newRow = Math.min(8, row + 1);
-          break;
-        case 'ArrowLeft':
-          newCol = Math.max(0, col - 1);
-          break;
-        case 'ArrowRight':
-          newCol = Math.min(8, col + 1);
-          break;
-      }
-      
-      if (newRow !== row || newCol !== col) {
-        onSelect(newRow, newCol);
-      }
-    }
-  }, [row, col, isInitial, maxNumber, onValueChange, onSelect]);
+  }, [row, col, isInitial, maxNumber, size, clearBuffer, commitBuffer, onValueChange, onSelect]);
 
   // Auto-focus when selected
   useEffect(() => {
@@ -100,22 +227,21 @@ const SudokuCell = memo(({
     }
   }, [isSelected]);
 
+  const sizeTier = getCellSizeTier(maxNumber);
+  const showMarks = value === null && (centreMarks !== 0 || cornerMarks !== 0);
+
   const cellClasses = clsx(
     // Responsive sizing based on grid size
-    maxNumber === 4 ? 'w-12 h-12 sm:w-16 sm:h-16 lg:w-20 lg:h-20' : // 4x4: larger cells
-    maxNumber === 6 ? 'w-10 h-10 sm:w-12 sm:h-12 lg:w-14 lg:h-14' : // 6x6: medium cells  
-    'w-6 h-6 sm:w-8 sm:h-8 lg:w-10 lg:h-10', // 16x16: smaller cells
-    'flex items-center justify-center',
+    sizeTier.cell,
+    'relative flex items-center justify-center',
     // Responsive text sizing
-    maxNumber === 4 ? 'text-lg sm:text-xl lg:text-2xl' : // 4x4: larger text
-    maxNumber === 6 ? 'text-sm sm:text-base lg:text-lg' : // 6x6: medium text
-    'text-xs sm:text-sm lg:text-base', // 16x16: smaller text
+    sizeTier.text,
     'font-bold rounded-md transition-all duration-200 cursor-pointer',
     // Touch-friendly interactions
     'border-2 focus:outline-none focus:ring-2 focus:ring-blue-400/50',
-    'active:scale-95 select-none', // Prevent text selection on touch
-    // Touch target size (minimum 44px for accessibility)
-    'min-h-[44px] min-w-[44px]',
+    'active:scale-95 select-none touch-none', // Prevent text selection and scrolling while drag-selecting
+    // Touch target size (minimum 44px for accessibility) where the grid still fits
+    maxNumber <= TOUCH_TARGET_MAX_NUMBER && 'min-h-[44px] min-w-[44px]',
     {
       // Initial cells (clues)
       'bg-gray-700/60 border-gray-600 text-blue-300 cursor-default': isInitial,
@@ -127,6 +253,18 @@ const SudokuCell = memo(({
       'border-red-400 bg-red-900/30 text-red-300': hasError,
       // Combined selected + error
       'ring-red-400 border-red-400': isSelected && hasError,
+      // Around the selected cell, and where its digit stands or is pencilled in
+      'bg-blue-500/10': isPeer && !isSameDigit && highlightedMark === undefined && !hasError,
+      'bg-blue-500/30 border-blue-300/70': isSameDigit && !hasError,
+      'bg-sky-500/20': highlightedMark !== undefined && !hasError,
+      // Wrong digit without a conflict to give it away
+      'text-red-400 underline decoration-wavy decoration-red-400/70': isMistake,
+      // Region the current hint points at
+      'bg-amber-500/10': isHintRegion && !isHinted && !hasError,
+      // Cells explaining the current hint
+      'bg-amber-500/20 border-amber-400/70': isHinted && !hasError,
+      // Cell the hint fills in
+      'ring-2 ring-amber-400 shadow-lg shadow-amber-400/30': isHintTarget && !isSelected,
     }
   );
 
@@ -136,6 +274,8 @@ const SudokuCell = memo(({
       className={cellClasses}
       onClick={handleClick}
       onTouchStart={handleTouchStart}
+      onPointerDown={handlePointerDown}
+      onPointerEnter={handlePointerEnter}
       onKeyDown={handleDivKeyDown}
       whileHover={!isInitial ? { scale: 1.05 } : {}}
       whileTap={!isInitial ? { scale: 0.95 } : {}}
@@ -143,7 +283,39 @@ const SudokuCell = memo(({
       tabIndex={0}
       data-testid={`cell-${row}-${col}`}
     >
-      {value || ''}
+      {showMarks ? (
+        <>
+          {centreMarks !== 0 && (
+            <span
+              className={clsx('flex flex-wrap justify-center gap-x-px px-1 font-medium leading-none text-sky-200', sizeTier.note)}
+              data-testid={`cell-centre-marks-${row}-${col}`}
+            >
+              {maskToDigits(centreMarks).map(digit => (
+                <span key={digit} className={clsx(digit === highlightedMark && 'font-extrabold text-yellow-300')}>
+                  {digit}
+                </span>
+              ))}
+            </span>
+          )}
+          {cornerMarks !== 0 && (
+            <span data-testid={`cell-corner-marks-${row}-${col}`}>
+              {getCornerMarkSlots(maskToDigits(cornerMarks)).map((text, i) => (
+                <span
+                  key={i}
+                  className={clsx(
+                    'absolute font-medium leading-none text-gray-300',
+                    sizeTier.note,
+                    CORNER_MARK_SLOTS[i],
+                    text === String(highlightedMark) && 'font-extrabold text-yellow-300'
+                  )}
+                >
+                  {text}
+                </span>
+              ))}
+            </span>
+          )}
+        </>
+      ) : value || ''}
     </motion.div>
   );
 });
@@ -1,18 +1,56 @@
 'use client';
 
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import clsx from 'clsx';
 import { SudokuCell } from './SudokuCell';
 import { useSudoku } from '@/context/SudokuContext';
+import { getCellHighlights } from '@/utils/highlight';
+import { getHintRegion } from '@/utils/hints';
+import { SelectionMode } from '@/types/sudoku';
 
 const SudokuGrid = memo(() => {
-  const { gameState, makeMove, selectCell, isInitialCell, hasError, isSelected } = useSudoku();
-  const { gridConfig } = gameState;
+  const { gameState, makeMove, selectCell, resumeGame, resetGame, isInitialCell, hasError, isMistake, isSelected } = useSudoku();
+  const { gridConfig, hint, hintLevel, isPaused, isGameOver, isComplete, selectedCells } = gameState;
+  const focusCell = selectedCells[selectedCells.length - 1];
+
+  // Region to look at (level 1+) and the cells behind the deduction (level 3+),
+  // keyed like the error set
+  const hintRegion = useMemo(() => {
+    if (!hint) return new Set<string>();
+    return new Set(getHintRegion(hint, gridConfig).map(({ row, col }) => `${row}-${col}`));
+  }, [hint, gridConfig]);
+
+  const hintCells = useMemo(
+    () => new Set(hint && hintLevel >= 3 ? hint.cells.map(({ row, col }) => `${row}-${col}`) : []),
+    [hint, hintLevel]
+  );
+
+  const hintTarget = hint && hintLevel >= 3 ? hint.placement : null;
+
+  // Worked out once per selection or board change and handed to the cells as
+  // plain flags, so the memoized cells outside the old and new highlights
+  // don't re-render
+  const focusRow = focusCell?.row;
+  const focusCol = focusCell?.col;
+  const highlights = useMemo(
+    () => getCellHighlights(
+      gameState.grid,
+      gameState.marks,
+      focusRow === undefined || focusCol === undefined ? undefined : { row: focusRow, col: focusCol },
+      gridConfig
+    ),
+    [gameState.grid, gameState.marks, focusRow, focusCol, gridConfig]
+  );
 
   const handleCellClick = useCallback((row: number, col: number) => {
     selectCell(row, col);
   }, [selectCell]);
 
+  const handleExtendSelection = useCallback((row: number, col: number, mode: SelectionMode) => {
+    selectCell(row, col, mode);
+  }, [selectCell]);
+
   const handleCellChange = useCallback((row: number, col: number, value: number | null) => {
     makeMove(row, col, value);
   }, [makeMove]);
@@ -43,17 +81,28 @@ const SudokuGrid = memo(() => {
             col={col}
             isInitial={isInitialCell(row, col)}
             hasError={hasError(row, col)}
+            isMistake={isMistake(row, col)}
+            isPeer={highlights.peers.has(key)}
+            isSameDigit={highlights.sameDigit.has(key)}
+            highlightedMark={highlights.candidates.has(key) ? highlights.digit ?? undefined : undefined}
             isSelected={isSelected(row, col)}
+            centreMarks={gameState.marks.centre[row]?.[col]}
+            cornerMarks={gameState.marks.corner[row]?.[col]}
+            isHintRegion={hintRegion.has(key)}
+            isHinted={hintCells.has(key)}
+            isHintTarget={hintTarget?.row === row && hintTarget?.col === col}
             onSelect={handleCellClick}
+            onExtendSelection={handleExtendSelection}
             onValueChange={handleCellChange}
             maxNumber={gridConfig.maxNumber}
+            size={gridConfig.size}
           />
         );
       }
     }
 
     return cells;
-  }, [gameState.grid, gridConfig, isInitialCell, hasError, isSelected, handleCellClick, handleCellChange]);
+  }, [gameState.grid, gameState.marks, gridConfig, highlights, hintRegion, hintCells, hintTarget, isInitialCell, hasError, isMistake, isSelected, handleCellClick, handleExtendSelection, handleCellChange]);
 
   // Don't render if grid is not properly initialized
   if (!gameState.grid || !gameState.gridConfig || gameState.grid.length !== gameState.gridConfig.size) {
@@ -75,14 +124,15 @@ const SudokuGrid = memo(() => {
 
   return (
     <motion.div
-      className="sudoku-grid glass-panel p-2 sm:p-4 lg:p-6 mx-auto w-full max-w-fit"
+      className="sudoku-grid glass-panel relative p-2 sm:p-4 lg:p-6 mx-auto w-full max-w-fit"
       initial={{ scale: 0.8, opacity: 0 }}
       animate={{ scale: 1, opacity: 1 }}
       transition={{ duration: 0.3 }}
       data-testid="sudoku-grid"
     >
       <div 
-        className={`grid gap-1 sm:gap-2 bg-gray-800/30 p-1 sm:p-2 rounded-lg`}
+        className={clsx('grid gap-1 sm:gap-2 bg-gray-800/30 p-1 sm:p-2 rounded-lg', isPaused && 'invisible')}
+        aria-hidden={isPaused}
         style={{ 
           gridTemplateColumns: `repeat(${subGridsPerCol}, 1fr)`,
           gridTemplateRows: `repeat(${subGridsPerRow}, 1fr)`
@@ -106,6 +156,37 @@ const SudokuGrid = memo(() => {
           );
         })}
       </div>
+
+      {/* The board stays hidden while the clock is stopped */}
+      {isPaused && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3" data-testid="paused-overlay">
+          <p className="text-lg font-semibold text-white">Paused</p>
+          <button
+            onClick={resumeGame}
+            className="px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-blue-500 to-purple-500 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-400/50"
+            data-testid="resume-button"
+          >
+            ▶ Resume
+          </button>
+        </div>
+      )}
+
+      {/* Out of strikes: the board stays visible behind so the mistakes can be seen */}
+      {isGameOver && !isComplete && (
+        <div
+          className="absolute inset-0 flex flex-col items-center justify-center gap-3 rounded-lg bg-gray-900/70"
+          data-testid="game-over-overlay"
+        >
+          <p className="text-lg font-semibold text-red-300">Game over - {gameState.mistakes} mistakes</p>
+          <button
+            onClick={resetGame}
+            className="px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-red-500 to-orange-500 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-400/50"
+            data-testid="try-again-button"
+          >
+            🔄 Try again
+          </button>
+        </div>
+      )}
     </motion.div>
   );
 });
@@ -2,6 +2,20 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { SudokuCell } from '@/components/SudokuCell';
 
+// jsdom has no PointerEvent, and the plain Event it falls back to drops
+// `button` and `buttons`; a MouseEvent carries both
+if (typeof window.PointerEvent === 'undefined') {
+  class PointerEvent extends MouseEvent {
+    pointerId: number;
+
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 1;
+    }
+  }
+  window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+}
+
 const mockProps = {
   row: 0,
   col: 0,
@@ -79,6 +93,72 @@ describe('SudokuCell', () => {
     expect(mockProps.onValueChange).not.toHaveBeenCalled();
   });
 
+  it('renders centre and corner marks in an empty cell', () => {
+    // Centre 1, 3 and 6; corner 2 and 5 - as digit bitmasks
+    render(<SudokuCell {...mockProps} centreMarks={0b100101} cornerMarks={0b10010} />);
+
+    const centre = screen.getByTestId('cell-centre-marks-0-0');
+    expect(centre.children).toHaveLength(3);
+    expect(centre.textContent).toBe('136');
+    expect(screen.getByTestId('cell-corner-marks-0-0').textContent).toBe('25');
+  });
+
+  it('shows the value instead of marks once the cell is filled', () => {
+    render(<SudokuCell {...mockProps} value={2} centreMarks={0b100101} cornerMarks={0b10010} />);
+
+    expect(screen.queryByTestId('cell-centre-marks-0-0')).toBeNull();
+    expect(screen.queryByTestId('cell-corner-marks-0-0')).toBeNull();
+    expect(screen.getByTestId('cell-0-0').textContent).toBe('2');
+  });
+
+  it('picks out the selected digit among the marks', () => {
+    render(<SudokuCell {...mockProps} centreMarks={0b1010} highlightedMark={4} />);
+
+    expect(screen.getByText('4').className).toContain('text-yellow-300');
+    expect(screen.getByText('2').className).not.toContain('text-yellow-300');
+    expect(screen.getByTestId('cell-0-0').className).toContain('bg-sky-500/20');
+  });
+
+  it('extends the selection on shift-click and ctrl-click', () => {
+    const onExtendSelection = jest.fn();
+    render(<SudokuCell {...mockProps} onExtendSelection={onExtendSelection} />);
+
+    const cell = screen.getByTestId('cell-0-0');
+    fireEvent.click(cell, { shiftKey: true });
+    fireEvent.click(cell, { ctrlKey: true });
+
+    expect(onExtendSelection.mock.calls).toEqual([[0, 0, 'add'], [0, 0, 'toggle']]);
+    expect(mockProps.onSelect).not.toHaveBeenCalled();
+  });
+
+  it('selects a cell once on pointer-down and the click after it', () => {
+    render(<SudokuCell {...mockProps} />);
+
+    const cell = screen.getByTestId('cell-0-0');
+    fireEvent.pointerDown(cell, { button: 0 });
+    fireEvent.click(cell);
+
+    expect(mockProps.onSelect.mock.calls).toEqual([[0, 0]]);
+  });
+
+  it('selects the cells a mouse drags across, starting with the first', () => {
+    const onExtendSelection = jest.fn();
+    render(
+      <>
+        {[0, 1, 2].map(col => (
+          <SudokuCell key={col} {...mockProps} col={col} onExtendSelection={onExtendSelection} />
+        ))}
+      </>
+    );
+
+    fireEvent.pointerDown(screen.getByTestId('cell-0-0'), { button: 0, buttons: 1 });
+    fireEvent.pointerEnter(screen.getByTestId('cell-0-1'), { buttons: 1 });
+    fireEvent.pointerEnter(screen.getByTestId('cell-0-2'), { buttons: 1 });
+
+    expect(mockProps.onSelect.mock.calls).toEqual([[0, 0]]);
+    expect(onExtendSelection.mock.calls).toEqual([[0, 1, 'add'], [0, 2, 'add']]);
+  });
+
   it('applies correct styling for selected cell', () => {
     render(<SudokuCell {...mockProps} isSelected={true} />);
     
@@ -97,6 +177,14 @@ describe('SudokuCell', () => {
     expect(cell.className).toContain('text-red-300');
   });
 
+  it('marks a wrong value without the conflict styling', () => {
+    render(<SudokuCell {...mockProps} value={3} isMistake={true} />);
+
+    const cell = screen.getByTestId('cell-0-0');
+    expect(cell.className).toContain('decoration-wavy');
+    expect(cell.className).not.toContain('bg-red-900/30');
+  });
+
   it('applies correct styling for initial cell values', () => {
     render(<SudokuCell {...mockProps} isInitial={true} value={5} />);
     
@@ -138,4 +226,35 @@ describe('SudokuCell', () => {
     fireEvent.keyDown(cell, { key: '0' });
     expect(mockProps.onValueChange).toHaveBeenCalledWith(0, 0, 10);
   });
+
+  it('enters values above 9 as letters or two typed digits', () => {
+    jest.useFakeTimers();
+    render(<SudokuCell {...mockProps} maxNumber={16} />);
+    const cell = screen.getByTestId('cell-0-0');
+
+    fireEvent.keyDown(cell, { key: 'c' });
+    expect(mockProps.onValueChange).toHaveBeenLastCalledWith(0, 0, 12);
+
+    fireEvent.keyDown(cell, { key: '1' });
+    fireEvent.keyDown(cell, { key: '5' });
+    expect(mockProps.onValueChange).toHaveBeenLastCalledWith(0, 0, 15);
+
+    // A lone 1 goes in once the wait is over
+    fireEvent.keyDown(cell, { key: '1' });
+    expect(mockProps.onValueChange).toHaveBeenCalledTimes(2);
+    jest.runAllTimers();
+    expect(mockProps.onValueChange).toHaveBeenLastCalledWith(0, 0, 1);
+    jest.useRealTimers();
+  });
+
+  it('wraps arrow navigation at the grid size, clues included', () => {
+    render(<SudokuCell {...mockProps} row={2} col={5} isInitial={true} value={3} />);
+    const cell = screen.getByTestId('cell-2-5');
+
+    fireEvent.keyDown(cell, { key: 'ArrowRight' });
+    expect(mockProps.onSelect).toHaveBeenLastCalledWith(2, 0);
+
+    fireEvent.keyDown(cell, { key: 'PageDown' });
+    expect(mockProps.onSelect).toHaveBeenLastCalledWith(5, 5);
+  });
 });
@@ -1,21 +1,81 @@
 'use client';
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { GameState, Difficulty, SudokuGrid } from '@/types/sudoku';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import {
+  GameState,
+  Difficulty,
+  GridSize,
+  GeneratedPuzzle,
+  Hint,
+  HintLevel,
+  CellPosition,
+  EntryMode,
+  SelectionMode,
+  SudokuGrid,
+  NewGameOptions,
+} from '@/types/sudoku';
 import { SudokuGenerator } from '@/utils/sudokuGenerator';
 import { SudokuSolver } from '@/utils/sudokuSolver';
+import { PuzzleWorkerClient } from '@/workers/puzzleWorkerClient';
+import {
+  clearCellNotes,
+  clearNotesForPlacement,
+  createEmptyMarks,
+  mapMarks,
+  restoreNotesForRemoval,
+  toggleNote,
+} from '@/utils/notes';
+import { applyChanges, createHistory, recordMove } from '@/utils/history';
+import { loadSavedGame, saveGame } from '@/utils/savedGame';
+import { GameLibrary } from '@/utils/gameLibrary';
+import { createGameId } from '@/utils/random';
+import { recordFinishedGame } from '@/utils/stats';
+import { createClock, pauseClock, readClock, resumeClock } from '@/utils/clock';
+import { DEFAULT_ASSIST_LEVEL, getMistakeCells, hasAssist } from '@/utils/assist';
 
 interface SudokuContextType {
   gameState: GameState;
-  newGame: (difficulty: Difficulty) => void;
+  // Generates in the background
+  newGame: (size: GridSize, difficulty: Difficulty, options?: NewGameOptions) => void;
+  cancelGeneration: () => void;
+  isGenerating: boolean;
+  // Unfinished game found in storage on load, waiting for Continue or New game
+  resumableGame: GameState | null;
+  continueSavedGame: () => void;
+  // Start a fresh puzzle of the saved game's size and difficulty instead
+  discardSavedGame: () => void;
+  // Switch to a game from the saved-games library
+  loadGame: (game: GameState) => void;
+  // Applies to the whole selection when the cell is part of it. In a mark
+  // entry mode a digit toggles a pencil mark instead; null clears value and marks.
+  // With full assist, a digit that clashes with a peer is refused.
   makeMove: (row: number, col: number, value: number | null) => void;
-  selectCell: (row: number, col: number) => void;
+  setEntryMode: (mode: EntryMode) => void;
+  // Replace the centre marks with every empty cell's candidates
+  fillCandidates: () => void;
+  // Always on with full assist
+  toggleAutoCandidates: () => void;
+  // Step through value, mark, hint and clear moves; not once the puzzle is solved or lost
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  selectCell: (row: number, col: number, mode?: SelectionMode) => void;
   solvePuzzle: () => void;
+  // Reveal the next hint level; the fourth level fills in the value
   getHint: () => void;
+  dismissHint: () => void;
+  // Start the puzzle over: a fresh attempt with its clock, counts and history cleared
   resetGame: () => void;
+  // Stop the clock and hide the board; also happens when the tab loses focus
+  pauseGame: () => void;
+  resumeGame: () => void;
   // Performance helpers
   isInitialCell: (row: number, col: number) => boolean;
+  // Peer conflict, shown from the conflicts assist level up
   hasError: (row: number, col: number) => boolean;
+  // Value that disagrees with the solution, shown from the mistakes assist level up
+  isMistake: (row: number, col: number) => boolean;
   isSelected: (row: number, col: number) => boolean;
   elapsedTime: number;
   progress: number;
@@ -23,6 +83,8 @@ interface SudokuContextType {
 
 const SudokuContext = React.createContext<SudokuContextType | undefined>(undefined);
 
+const createHintsUsed = (): Record<HintLevel, number> => ({ 1: 0, 2: 0, 3: 0, 4: 0 });
+
 const createInitialState = (): GameState => {
   // Create empty state for SSR to prevent hydration mismatch
   const emptyGrid = Array(6).fill(null).map(() => Array(6).fill(null)); // Default 6x6
@@ -34,211 +96,618 @@ const createInitialState = (): GameState => {
   };
   
   return {
+    id: '',
     grid: emptyGrid,
     solution: emptyGrid,
     initialGrid: emptyGrid,
+    marks: createEmptyMarks(6),
+    entryMode: 'value',
+    autoCandidates: false,
+    history: createHistory(),
+    solutionCount: 1,
+    grade: null,
+    hint: null,
+    hintLevel: 1,
+    hintsUsed: createHintsUsed(),
+    mistakes: 0,
+    strikeLimit: null,
+    isGameOver: false,
+    assistLevel: DEFAULT_ASSIST_LEVEL,
+    usedSolve: false,
     isComplete: false,
     errors: new Set(),
-    selectedCell: null,
+    selectedCells: [],
     difficulty: 'medium',
     gridConfig: defaultConfig,
-    startTime: Date.now(),
+    seed: 0,
+    // Stopped until a real puzzle is on the board
+    clock: { elapsedMs: 0, runningSince: null },
+    isPaused: false,
+  };
+};
+
+const createGameState = (
+  { puzzle, solution, gridConfig, seed, solutionCount, grade }: GeneratedPuzzle,
+  difficulty: Difficulty,
+  { strikeLimit = null, assistLevel = DEFAULT_ASSIST_LEVEL }: NewGameOptions,
+  now: number
+): GameState => {
+  const autoCandidates = hasAssist(assistLevel, 'full');
+  const marks = createEmptyMarks(gridConfig.size);
+  if (autoCandidates) marks.centre = SudokuSolver.getCandidates(puzzle, gridConfig);
+
+  return {
+    id: createGameId(),
+    grid: puzzle,
+    solution,
+    initialGrid: SudokuGenerator.copyGrid(puzzle),
+    marks,
+    entryMode: 'value',
+    autoCandidates,
+    history: createHistory(),
+    solutionCount,
+    grade,
+    hint: null,
+    hintLevel: 1,
+    hintsUsed: createHintsUsed(),
+    mistakes: 0,
+    strikeLimit,
+    isGameOver: false,
+    assistLevel,
+    usedSolve: false,
+    isComplete: false,
+    errors: new Set(),
+    selectedCells: [],
+    difficulty,
+    gridConfig,
+    seed,
+    clock: createClock(now),
+    isPaused: false,
+  };
+};
+
+const isCellIn = (cells: CellPosition[], row: number, col: number) =>
+  cells.some(cell => cell.row === row && cell.col === col);
+
+// Solved or lost: either way the board no longer takes moves
+const isFinished = (state: GameState) => state.isComplete || state.isGameOver;
+
+// The empty board shown before the first puzzle arrives has no solution
+const isPlaceholder = (state: GameState) => !SudokuSolver.isFilled(state.solution);
+
+// Errors and completion once `grid` replaces the state's grid; completing stops the clock
+const checkGrid = (state: GameState, grid: SudokuGrid) => {
+  const validation = SudokuSolver.validateGrid(grid, state.gridConfig);
+  const isComplete = validation.isValid && SudokuSolver.isFilled(grid);
+  const now = Date.now();
+
+  return {
+    errors: new Set(validation.conflicts.map(({ row, col }) => `${row}-${col}`)),
+    isComplete,
+    clock: isComplete ? pauseClock(state.clock, now) : state.clock,
+    finishedAt: isComplete ? now : state.finishedAt,
+  };
+};
+
+/**
+ * Write a value into the given cells and re-validate. Shared by player moves and hints.
+ * A placed digit is crossed off the marks of each cell and its peers; with
+ * automatic candidates, a removed one is given back where it fits again.
+ */
+const applyValue = (state: GameState, cells: CellPosition[], value: number | null): GameState => {
+  // Clone grid efficiently
+  const newGrid = state.grid.map((r, rowIndex) => 
+    r.map((cell, colIndex) => (isCellIn(cells, rowIndex, colIndex) ? value : cell))
+  );
+
+  let marks = state.marks;
+  if (state.autoCandidates) {
+    const candidates = SudokuSolver.getCandidates(newGrid, state.gridConfig);
+    const centre = cells.reduce((next, { row, col }) => {
+      const removed = state.grid[row][col];
+      return removed === null || removed === value
+        ? next
+        : restoreNotesForRemoval(next, row, col, removed, candidates, state.gridConfig);
+    }, marks.centre);
+    marks = { ...marks, centre };
+  }
+  if (value !== null) {
+    marks = mapMarks(marks, notes => cells.reduce(
+      (next, { row, col }) => clearNotesForPlacement(next, row, col, value, state.gridConfig),
+      notes
+    ));
+  }
+
+  return {
+    ...state,
+    grid: newGrid,
+    marks,
+    ...checkGrid(state, newGrid),
+    hint: null,
+  };
+};
+
+/**
+ * A player's digit or clear on (row, col), or on the whole selection when the
+ * cell is part of it
+ */
+const applyMove = (state: GameState, row: number, col: number, value: number | null): GameState => {
+  if (state.isPaused || state.isGameOver) return state;
+
+  const targets = isCellIn(state.selectedCells, row, col) ? state.selectedCells : [{ row, col }];
+  // Don't allow moves on initial cells
+  const editable = targets.filter(cell => state.initialGrid[cell.row][cell.col] === null);
+  if (editable.length === 0) return state;
+
+  if (value === null) {
+    // Filled cells lose their value, empty ones their marks
+    const filled = editable.filter(cell => state.grid[cell.row][cell.col] !== null);
+    const empty = editable.filter(cell => state.grid[cell.row][cell.col] === null);
+    const cleared = filled.length > 0 ? applyValue(state, filled, null) : state;
+    return { ...cleared, marks: mapMarks(cleared.marks, notes => clearCellNotes(notes, empty)) };
+  }
+
+  if (state.entryMode !== 'value') {
+    // Marks only go in empty cells
+    const empty = editable.filter(cell => state.grid[cell.row][cell.col] === null);
+    if (empty.length === 0) return state;
+    const kind = state.entryMode;
+    return { ...state, marks: { ...state.marks, [kind]: toggleNote(state.marks[kind], empty, value) } };
+  }
+
+  const next = applyValue(state, editable, value);
+  // Full assist refuses the digit where it would clash with a peer, and doesn't count it
+  if (hasAssist(state.assistLevel, 'full') && editable.some(({ row, col }) => next.errors.has(`${row}-${col}`))) {
+    return state;
+  }
+
+  // Only digits that change a cell count: typing the same wrong digit again isn't a new mistake
+  const mistakes = state.mistakes + editable.filter(({ row, col }) =>
+    state.grid[row][col] !== value && state.solution[row][col] !== value
+  ).length;
+  if (state.strikeLimit === null || mistakes < state.strikeLimit) return { ...next, mistakes };
+
+  // Out of strikes: the game ends here, wrong digits and all
+  const now = Date.now();
+  return { ...next, mistakes, isGameOver: true, clock: pauseClock(next.clock, now), finishedAt: now };
+};
+
+/**
+ * Record whatever `next` changed on the board as one undoable move
+ */
+const withHistory = (prev: GameState, next: GameState): GameState =>
+  next === prev ? prev : { ...next, history: recordMove(prev.history, prev, next) };
+
+/**
+ * Take back the last move, or play the last undone one again
+ */
+const stepHistory = (state: GameState, direction: 'undo' | 'redo'): GameState => {
+  const { past, future } = state.history;
+  const move = direction === 'undo' ? past[past.length - 1] : future[future.length - 1];
+  if (!move || isFinished(state) || state.isPaused) return state;
+
+  const { grid, marks } = applyChanges(state, move, direction === 'undo' ? 'before' : 'after');
+
+  return {
+    ...state,
+    grid,
+    marks,
+    ...checkGrid(state, grid),
+    hint: null,
+    history: direction === 'undo'
+      ? { past: past.slice(0, -1), future: [...future, move] }
+      : { past: [...past, move], future: future.slice(0, -1) },
   };
 };
 
+// Only real puzzles are saved, not the placeholder. Finished games leave the
+// library of games in progress.
+const autosave = (state: GameState) => {
+  if (isPlaceholder(state)) return;
+
+  saveGame(state);
+  const saved = isFinished(state) ? GameLibrary.remove(state.id) : GameLibrary.save(state);
+  saved.catch(() => {
+    // The library is a convenience - the game itself is still in localStorage
+  });
+};
+
+// Changes to these alone aren't worth a full save; the next real change or
+// leaving the page writes them too
+const TRANSIENT_FIELDS: (keyof GameState)[] = ['selectedCells', 'entryMode', 'hint'];
+
+const hasUnsavedChanges = (saved: GameState, state: GameState) =>
+  (Object.keys(state) as (keyof GameState)[]).some(
+    key => !TRANSIENT_FIELDS.includes(key) && saved[key] !== state[key]
+  );
+
+/**
+ * Show a new hint at level 1, or reveal one more level of the current one.
+ * The fourth level fills in the value.
+ */
+const revealHint = (state: GameState, hint: Hint): GameState => {
+  const hintLevel: HintLevel = state.hint ? (Math.min(state.hintLevel + 1, 4) as HintLevel) : 1;
+  const hintsUsed = { ...state.hintsUsed, [hintLevel]: state.hintsUsed[hintLevel] + 1 };
+
+  if (hintLevel === 4) {
+    const { row, col, value } = hint.placement;
+    return {
+      ...applyValue(state, [{ row, col }], value),
+      hintsUsed,
+      selectedCells: [{ row, col }],
+    };
+  }
+
+  return { ...state, hint, hintLevel, hintsUsed };
+};
+
 export function SudokuProvider({ children }: { children: React.ReactNode }) {
   const [gameState, setGameState] = useState<GameState>(createInitialState);
   const [mounted, setMounted] = useState(false);
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [isGenerating, setIsGenerating] = useState(true);
+  const [resumableGame, setResumableGame] = useState<GameState | null>(null);
+  const [puzzleWorker] = useState(() => new PuzzleWorkerClient());
+
+  // Latest state for callbacks that start background work
+  const gameStateRef = useRef(gameState);
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
+
+  const newGame = useCallback((size: GridSize, difficulty: Difficulty, options: NewGameOptions = {}) => {
+    setIsGenerating(true);
+    const { seed, symmetry, minimal } = options;
+    puzzleWorker.generatePuzzle(size, difficulty, seed, { symmetry, minimal }).then(generated => {
+      if (!generated) return; // Cancelled or replaced by a newer request
+
+      const now = Date.now();
+      setCurrentTime(now);
+      setGameState(createGameState(generated, difficulty, options, now));
+      setIsGenerating(false);
+    });
+  }, [puzzleWorker]);
+
+  const cancelGeneration = useCallback(() => {
+    puzzleWorker.cancel();
+    setIsGenerating(false);
+  }, [puzzleWorker]);
+
+  const continueSavedGame = useCallback(() => {
+    // Read again so the time spent deciding isn't counted as play time
+    const saved = loadSavedGame();
+    setResumableGame(null);
+    if (!saved) return;
+
+    setCurrentTime(Date.now());
+    setGameState(saved);
+  }, []);
+
+  const loadGame = useCallback((game: GameState) => {
+    puzzleWorker.cancel();
+    setIsGenerating(false);
+    setResumableGame(null);
+    setCurrentTime(Date.now());
+    setGameState(game);
+  }, [puzzleWorker]);
+
+  const discardSavedGame = useCallback(() => {
+    if (!resumableGame) return;
+    setResumableGame(null);
+    // The old save is only replaced once the new puzzle is on the board
+    const { strikeLimit, assistLevel } = resumableGame;
+    newGame(resumableGame.gridConfig.size, resumableGame.difficulty, { strikeLimit, assistLevel });
+  }, [resumableGame, newGame]);
 
   // Prevent hydration mismatch by only calculating time after mount
   useEffect(() => {
     setMounted(true);
-    // Generate initial puzzle after mount to prevent hydration mismatch
-    const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle('medium');
-    const startTime = Date.now();
-    setCurrentTime(startTime);
-    setGameState({
-      grid: puzzle,
-      solution,
-      initialGrid: SudokuGenerator.copyGrid(puzzle),
-      isComplete: false,
-      errors: new Set(),
-      selectedCell: null,
-      difficulty: 'medium',
-      gridConfig,
-      startTime,
-    });
+    // Restore or generate the first puzzle after mount to prevent hydration mismatch
+    const saved = loadSavedGame();
+    if (saved && !isFinished(saved)) {
+      setResumableGame(saved);
+      setIsGenerating(false);
+    } else {
+      newGame(6, 'medium');
+    }
+    return () => puzzleWorker.dispose();
+  }, [newGame, puzzleWorker]);
+
+  // Save after every change that matters, and once more on leaving so the
+  // clock and selection are current
+  const lastSavedRef = useRef<GameState | null>(null);
+  useEffect(() => {
+    if (!mounted) return;
+    if (lastSavedRef.current && !hasUnsavedChanges(lastSavedRef.current, gameState)) return;
+
+    lastSavedRef.current = gameState;
+    autosave(gameState);
+  }, [mounted, gameState]);
+
+  // Count each game once, when it's solved or lost. The ref saves reading
+  // every stored record again on each change after that.
+  const recordedIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isFinished(gameState) || recordedIdRef.current === gameState.id) return;
+
+    recordedIdRef.current = gameState.id;
+    recordFinishedGame(gameState);
+  }, [gameState]);
+
+  useEffect(() => {
+    const handlePageHide = () => autosave(gameStateRef.current);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
   }, []);
 
   // Update current time every second for real-time elapsed time
+  const isClockRunning = gameState.clock.runningSince !== null;
   useEffect(() => {
-    if (!mounted || gameState.isComplete) return;
+    if (!mounted || !isClockRunning) return;
 
     const interval = setInterval(() => {
       setCurrentTime(Date.now());
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [mounted, gameState.isComplete]);
-
-  const newGame = useCallback((difficulty: Difficulty) => {
-    const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle(difficulty);
-    const startTime = Date.now();
-    setCurrentTime(startTime);
-    setGameState({
-      grid: puzzle,
-      solution,
-      initialGrid: SudokuGenerator.copyGrid(puzzle),
-      isComplete: false,
-      errors: new Set(),
-      selectedCell: null,
-      difficulty,
-      gridConfig,
-      startTime,
+  }, [mounted, isClockRunning]);
+
+  const makeMove = useCallback((row: number, col: number, value: number | null) => {
+    setGameState(prev => withHistory(prev, applyMove(prev, row, col, value)));
+  }, []);
+
+  const undo = useCallback(() => {
+    setGameState(prev => stepHistory(prev, 'undo'));
+  }, []);
+
+  const redo = useCallback(() => {
+    setGameState(prev => stepHistory(prev, 'redo'));
+  }, []);
+
+  const setEntryMode = useCallback((entryMode: EntryMode) => {
+    setGameState(prev => ({ ...prev, entryMode }));
+  }, []);
+
+  const fillCandidates = useCallback(() => {
+    setGameState(prev => {
+      if (prev.isPaused || isFinished(prev)) return prev;
+      return withHistory(prev, {
+        ...prev,
+        marks: { ...prev.marks, centre: SudokuSolver.getCandidates(prev.grid, prev.gridConfig) },
+      });
     });
   }, []);
 
-  const makeMove = useCallback((row: number, col: number, value: number | null) => {
+  const toggleAutoCandidates = useCallback(() => {
     setGameState(prev => {
-      // Don't allow moves on initial cells
-      if (prev.initialGrid[row][col] !== null) return prev;
+      if (prev.isPaused || isFinished(prev) || hasAssist(prev.assistLevel, 'full')) return prev;
+      if (prev.autoCandidates) return { ...prev, autoCandidates: false };
+      // Start from the full candidates so later updates have something to track
+      return withHistory(prev, {
+        ...prev,
+        autoCandidates: true,
+        marks: { ...prev.marks, centre: SudokuSolver.getCandidates(prev.grid, prev.gridConfig) },
+      });
+    });
+  }, []);
 
-      // Clone grid efficiently
-      const newGrid = prev.grid.map((r, rowIndex) => 
-        rowIndex === row ? r.map((cell, colIndex) => 
-          colIndex === col ? value : cell
-        ) : [...r]
-      );
+  const selectCell = useCallback((row: number, col: number, mode: SelectionMode = 'replace') => {
+    setGameState(prev => {
+      const isSelected = isCellIn(prev.selectedCells, row, col);
+      const others = prev.selectedCells.filter(cell => cell.row !== row || cell.col !== col);
 
-      // Validate move with optimized conflict detection
-      const validation = SudokuSolver.validateGrid(newGrid, prev.gridConfig);
-      const newErrors = new Set(
-        validation.conflicts.map(({ row: r, col: c }) => `${r}-${c}`)
-      );
+      let selectedCells: CellPosition[];
+      if (mode === 'replace') {
+        selectedCells = [{ row, col }];
+      } else if (mode === 'toggle' && isSelected) {
+        selectedCells = others;
+      } else if (mode === 'add' && isSelected) {
+        return prev; // Dragging back over a selected cell
+      } else {
+        selectedCells = [...others, { row, col }];
+      }
+
+      return { ...prev, selectedCells };
+    });
+  }, []);
 
-      const isComplete = SudokuSolver.isComplete(newGrid, prev.gridConfig);
+  const solvePuzzle = useCallback(() => {
+    setGameState(prev => {
+      // A lost game stays lost, and there's nothing to solve while a puzzle is generating
+      if (isFinished(prev) || isPlaceholder(prev)) return prev;
 
+      const now = Date.now();
       return {
         ...prev,
-        grid: newGrid,
-        errors: newErrors,
-        isComplete,
-        endTime: isComplete ? Date.now() : prev.endTime,
+        grid: SudokuGenerator.copyGrid(prev.solution),
+        errors: new Set(),
+        hint: null,
+        usedSolve: true,
+        isComplete: true,
+        isPaused: false,
+        clock: pauseClock(prev.clock, now),
+        finishedAt: now,
       };
     });
   }, []);
 
-  const selectCell = useCallback((row: number, col: number) => {
-    setGameState(prev => ({
-      ...prev,
-      selectedCell: { row, col }
-    }));
+  const pauseGame = useCallback(() => {
+    setGameState(prev => (
+      prev.isPaused || isFinished(prev) ? prev : { ...prev, isPaused: true, clock: pauseClock(prev.clock) }
+    ));
   }, []);
 
-  const solvePuzzle = useCallback(() => {
-    setGameState(prev => ({
-      ...prev,
-      grid: SudokuGenerator.copyGrid(prev.solution),
-      errors: new Set(),
-      isComplete: true,
-      endTime: Date.now(),
-    }));
+  const resumeGame = useCallback(() => {
+    setCurrentTime(Date.now());
+    setGameState(prev => (prev.isPaused ? { ...prev, isPaused: false, clock: resumeClock(prev.clock) } : prev));
   }, []);
 
+  // Stop the clock while the player is away from the tab or window
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
+    };
+  }, [pauseGame]);
+
   const getHint = useCallback(() => {
-    setGameState(prev => {
-      const hint = SudokuSolver.getHint(prev.grid, prev.solution, prev.gridConfig);
-      if (!hint) return prev;
+    const { isPaused, hint, grid, solution, gridConfig } = gameStateRef.current;
+    if (isFinished(gameStateRef.current) || isPaused) return;
 
-      // Clone grid with hint applied
-      const newGrid = prev.grid.map((r, rowIndex) => 
-        rowIndex === hint.row ? r.map((cell, colIndex) => 
-          colIndex === hint.col ? prev.solution[hint.row][hint.col] : cell
-        ) : [...r]
-      );
+    if (hint) {
+      setGameState(prev => (prev.hint ? withHistory(prev, revealHint(prev, prev.hint)) : prev));
+      return;
+    }
 
-      const validation = SudokuSolver.validateGrid(newGrid, prev.gridConfig);
-      const newErrors = new Set(
-        validation.conflicts.map(({ row: r, col: c }) => `${r}-${c}`)
-      );
+    // Searching for a new hint can take a while on large grids
+    puzzleWorker.findHint(grid, solution, gridConfig).then(found => {
+      // Drop the hint if the board changed while it was being found
+      setGameState(prev => (
+        found && !prev.hint && prev.grid === grid ? withHistory(prev, revealHint(prev, found)) : prev
+      ));
+    });
+  }, [puzzleWorker]);
 
-      const isComplete = SudokuSolver.isComplete(newGrid, prev.gridConfig);
+  const dismissHint = useCallback(() => {
+    setGameState(prev => ({ ...prev, hint: null }));
+  }, []);
 
+  const resetGame = useCallback(() => {
+    const now = Date.now();
+    setCurrentTime(now);
+    setGameState(prev => {
+      if (isPlaceholder(prev)) return prev;
+
+      const marks = createEmptyMarks(prev.gridConfig.size);
+      if (prev.autoCandidates) marks.centre = SudokuSolver.getCandidates(prev.initialGrid, prev.gridConfig);
+
+      // Not undoable: undo only steps the board, so it would bring back the
+      // digits without the mistakes, time and solve that went with them.
+      // Replaying a finished game is a new attempt as far as the statistics go.
       return {
         ...prev,
-        grid: newGrid,
-        errors: newErrors,
-        isComplete,
-        selectedCell: hint,
-        endTime: isComplete ? Date.now() : prev.endTime,
+        id: isFinished(prev) ? createGameId() : prev.id,
+        grid: SudokuGenerator.copyGrid(prev.initialGrid),
+        marks,
+        errors: new Set(),
+        hint: null,
+        hintsUsed: createHintsUsed(),
+        mistakes: 0,
+        isGameOver: false,
+        usedSolve: false,
+        isComplete: false,
+        selectedCells: [],
+        clock: createClock(now),
+        isPaused: false,
+        finishedAt: undefined,
+        history: createHistory(),
       };
     });
   }, []);
 
-  const resetGame = useCallback(() => {
-    const startTime = Date.now();
-    setCurrentTime(startTime);
-    setGameState(prev => ({
-      ...prev,
-      grid: SudokuGenerator.copyGrid(prev.initialGrid),
-      errors: new Set(),
-      isComplete: false,
-      selectedCell: null,
-      startTime,
-      endTime: undefined,
-    }));
-  }, []);
-
   // Memoized helper functions for performance
   const isInitialCell = useCallback((row: number, col: number) => {
     return gameState.initialGrid[row][col] !== null;
   }, [gameState.initialGrid]);
 
+  const showConflicts = hasAssist(gameState.assistLevel, 'conflicts');
   const hasError = useCallback((row: number, col: number) => {
-    return gameState.errors.has(`${row}-${col}`);
-  }, [gameState.errors]);
+    return showConflicts && gameState.errors.has(`${row}-${col}`);
+  }, [showConflicts, gameState.errors]);
+
+  const mistakeCells = useMemo(
+    () => (hasAssist(gameState.assistLevel, 'mistakes')
+      ? getMistakeCells(gameState.grid, gameState.solution)
+      : new Set<string>()),
+    [gameState.assistLevel, gameState.grid, gameState.solution]
+  );
+  const isMistake = useCallback((row: number, col: number) => {
+    return mistakeCells.has(`${row}-${col}`);
+  }, [mistakeCells]);
+
+  const selectedKeys = useMemo(
+    () => new Set(gameState.selectedCells.map(({ row, col }) => `${row}-${col}`)),
+    [gameState.selectedCells]
+  );
 
   const isSelected = useCallback((row: number, col: number) => {
-    return gameState.selectedCell?.row === row && gameState.selectedCell?.col === col;
-  }, [gameState.selectedCell]);
+    return selectedKeys.has(`${row}-${col}`);
+  }, [selectedKeys]);
+
+  const canUndo = gameState.history.past.length > 0 && !isFinished(gameState);
+  const canRedo = gameState.history.future.length > 0 && !isFinished(gameState);
 
   // Memoized computed values
   const elapsedTime = useMemo(() => {
     if (!mounted) return 0; // Return 0 during SSR to prevent hydration mismatch
-    const endTime = gameState.endTime || currentTime;
-    return Math.floor((endTime - gameState.startTime) / 1000);
-  }, [gameState.startTime, gameState.endTime, mounted, currentTime]);
+    return Math.floor(readClock(gameState.clock, currentTime) / 1000);
+  }, [gameState.clock, mounted, currentTime]);
 
-  const progress = useMemo(() => {
-    const filledCells = gameState.grid.flat().filter(cell => cell !== null).length;
-    const totalCells = gameState.gridConfig.size * gameState.gridConfig.size;
-    return Math.round((filledCells / totalCells) * 100);
-  }, [gameState.grid, gameState.gridConfig]);
+  const progress = useMemo(() => SudokuSolver.getProgress(gameState.grid), [gameState.grid]);
 
   const value: SudokuContextType = useMemo(() => ({
     gameState,
     newGame,
+    cancelGeneration,
+    isGenerating,
+    resumableGame,
+    continueSavedGame,
+    discardSavedGame,
+    loadGame,
     makeMove,
+    setEntryMode,
+    fillCandidates,
+    toggleAutoCandidates,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     selectCell,
     solvePuzzle,
     getHint,
+    dismissHint,
     resetGame,
+    pauseGame,
+    resumeGame,
     isInitialCell,
     hasError,
+    isMistake,
     isSelected,
     elapsedTime,
     progress,
   }), [
     gameState,
     newGame,
+    cancelGeneration,
+    isGenerating,
+    resumableGame,
+    continueSavedGame,
+    discardSavedGame,
+    loadGame,
     makeMove,
+    setEntryMode,
+    fillCandidates,
+    toggleAutoCandidates,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     selectCell,
     solvePuzzle,
     getHint,
+    dismissHint,
     resetGame,
+    pauseGame,
+    resumeGame,
     isInitialCell,
     hasError,
+    isMistake,
     isSelected,
     elapsedTime,
     progress,
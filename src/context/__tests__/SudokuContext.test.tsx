@@ -0,0 +1,149 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { SudokuProvider, useSudoku } from '@/context/SudokuContext';
+import { GameState } from '@/types/sudoku';
+import { SAVED_GAME_KEY } from '@/utils/savedGame';
+import { STATS_KEY, loadGameRecords } from '@/utils/stats';
+import { PuzzleWorkerClient } from '@/workers/puzzleWorkerClient';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <SudokuProvider>{children}</SudokuProvider>;
+
+// Without Worker in jsdom, the first puzzle is generated on the spot after mount
+const renderGame = async () => {
+  const hook = renderHook(() => useSudoku(), { wrapper });
+  await waitFor(() => expect(hook.result.current.gameState.id).not.toBe(''));
+  return hook;
+};
+
+const findEmptyCell = (state: GameState) => {
+  for (let row = 0; row < state.gridConfig.size; row++) {
+    for (let col = 0; col < state.gridConfig.size; col++) {
+      if (state.grid[row][col] === null) return { row, col, answer: state.solution[row][col] as number };
+    }
+  }
+  throw new Error('No empty cell');
+};
+
+describe('SudokuContext', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('should not let undo bring back the board from before a reset', async () => {
+    const { result } = await renderGame();
+    const { row, col, answer } = findEmptyCell(result.current.gameState);
+    const wrong = (answer % result.current.gameState.gridConfig.maxNumber) + 1;
+
+    act(() => result.current.makeMove(row, col, wrong));
+    expect(result.current.gameState.mistakes).toBe(1);
+
+    act(() => result.current.resetGame());
+    act(() => result.current.undo());
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.gameState.grid[row][col]).toBeNull();
+    expect(result.current.gameState.mistakes).toBe(0);
+  });
+
+  it('should not complete a solved game again by undoing its reset', async () => {
+    const { result } = await renderGame();
+    act(() => result.current.solvePuzzle());
+    const solvedId = result.current.gameState.id;
+
+    act(() => result.current.resetGame());
+    act(() => result.current.undo());
+
+    expect(result.current.gameState.id).not.toBe(solvedId);
+    expect(result.current.gameState.isComplete).toBe(false);
+    expect(result.current.gameState.usedSolve).toBe(false);
+  });
+
+  it('should not solve a game lost to the mistake limit', async () => {
+    const { result } = await renderGame();
+    act(() => result.current.newGame(4, 'easy', { strikeLimit: 1 }));
+    await waitFor(() => expect(result.current.gameState.strikeLimit).toBe(1));
+
+    const { row, col, answer } = findEmptyCell(result.current.gameState);
+    act(() => result.current.makeMove(row, col, (answer % 4) + 1));
+    expect(result.current.gameState.isGameOver).toBe(true);
+
+    act(() => result.current.solvePuzzle());
+
+    expect(result.current.gameState.isComplete).toBe(false);
+    expect(result.current.gameState.usedSolve).toBe(false);
+  });
+
+  it('should leave the candidates alone while paused or after a game over', async () => {
+    const { result } = await renderGame();
+    act(() => result.current.newGame(4, 'easy', { strikeLimit: 1 }));
+    await waitFor(() => expect(result.current.gameState.strikeLimit).toBe(1));
+    const { marks } = result.current.gameState;
+
+    act(() => result.current.pauseGame());
+    act(() => result.current.fillCandidates());
+    act(() => result.current.toggleAutoCandidates());
+    expect(result.current.gameState.marks).toBe(marks);
+    expect(result.current.gameState.autoCandidates).toBe(false);
+
+    act(() => result.current.resumeGame());
+    const { row, col, answer } = findEmptyCell(result.current.gameState);
+    act(() => result.current.makeMove(row, col, (answer % 4) + 1));
+    const lostMarks = result.current.gameState.marks;
+
+    act(() => result.current.fillCandidates());
+    act(() => result.current.toggleAutoCandidates());
+    expect(result.current.gameState.marks).toBe(lostMarks);
+    expect(result.current.gameState.autoCandidates).toBe(false);
+  });
+
+  it('should pass the clue layout options on to the generator', async () => {
+    const { result } = await renderGame();
+    const generatePuzzle = jest.spyOn(PuzzleWorkerClient.prototype, 'generatePuzzle');
+
+    act(() => result.current.newGame(6, 'easy', { seed: 7, symmetry: 'mirror', minimal: true, strikeLimit: 3 }));
+    await waitFor(() => expect(result.current.gameState.seed).toBe(7));
+
+    expect(generatePuzzle).toHaveBeenCalledWith(6, 'easy', 7, { symmetry: 'mirror', minimal: true });
+  });
+
+  it('should save moves but not selection changes on their own', async () => {
+    const { result } = await renderGame();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+    const saves = () => setItem.mock.calls.filter(([key]) => key === SAVED_GAME_KEY).length;
+
+    act(() => result.current.selectCell(0, 0));
+    act(() => result.current.selectCell(1, 1, 'add'));
+    act(() => result.current.setEntryMode('centre'));
+    expect(saves()).toBe(0);
+
+    const { row, col, answer } = findEmptyCell(result.current.gameState);
+    act(() => result.current.makeMove(row, col, answer));
+    expect(saves()).toBe(1);
+  });
+
+  it('should not solve or record the placeholder board shown before the first puzzle', async () => {
+    // Generation that never finishes keeps the placeholder up
+    jest.spyOn(PuzzleWorkerClient.prototype, 'generatePuzzle').mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useSudoku(), { wrapper });
+    await waitFor(() => expect(result.current.isGenerating).toBe(true));
+
+    act(() => result.current.solvePuzzle());
+    act(() => result.current.resetGame());
+
+    expect(result.current.gameState.isComplete).toBe(false);
+    expect(loadGameRecords()).toEqual([]);
+  });
+
+  it('should record a finished game once without reading the records again', async () => {
+    const { result } = await renderGame();
+    act(() => result.current.solvePuzzle());
+    expect(loadGameRecords()).toHaveLength(1);
+
+    const getItem = jest.spyOn(Storage.prototype, 'getItem');
+    act(() => result.current.selectCell(0, 0));
+    act(() => result.current.selectCell(1, 1));
+
+    expect(getItem.mock.calls.filter(([key]) => key === STATS_KEY)).toHaveLength(0);
+  });
+});
@@ -1,6 +1,53 @@
 export type SudokuGrid = (number | null)[][];
-export type Difficulty = 'easy' | 'medium' | 'hard';
-export type GridSize = 4 | 6 | 16;
+export type Difficulty = 'beginner' | 'easy' | 'medium' | 'hard' | 'expert';
+export type GridSize = 4 | 6 | 8 | 9 | 10 | 12 | 16 | 25;
+export type SolverAlgorithm = 'backtracking' | 'dancing-links';
+// Returns numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+// How clue positions mirror each other: 180° turn, left-right mirror, main diagonal
+export type ClueSymmetry = 'none' | 'rotational' | 'mirror' | 'diagonal';
+
+// Pencil marks per cell as digit bitmasks (bit d - 1 = digit d)
+export type CellNotes = number[][];
+// Centre marks: "this cell is one of these digits".
+// Corner marks: "this digit goes in one of these cells".
+export type MarkKind = 'centre' | 'corner';
+export type PencilMarks = Record<MarkKind, CellNotes>;
+// What a digit key writes into the selected cells
+export type EntryMode = 'value' | MarkKind;
+// Plain click replaces the selection, shift-click and drag add, ctrl-click toggles
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+// How much the game checks for the player; each level adds to the one before:
+// peer conflicts, then digits that disagree with the solution, then
+// automatic candidates with digits that clash with a peer refused outright
+export type AssistLevel = 'none' | 'conflicts' | 'mistakes' | 'full';
+
+// Active play time: what was accumulated before, plus the stretch running since
+// `runningSince` (null while paused or finished)
+export interface GameClock {
+  elapsedMs: number;
+  runningSince: number | null;
+}
+
+// What a move changed in one cell, enough to step it either way
+export interface CellChange {
+  row: number;
+  col: number;
+  before: CellContents;
+  after: CellContents;
+}
+
+export interface CellContents {
+  value: number | null;
+  centre: number;
+  corner: number;
+}
+
+// Moves as lists of cell changes, most recent last
+export interface MoveHistory {
+  past: CellChange[][];
+  future: CellChange[][];
+}
 
 export interface GridConfig {
   size: GridSize;
@@ -10,16 +57,112 @@ export interface GridConfig {
 }
 
 export interface GameState {
+  // Key of the game's save slot
+  id: string;
   grid: SudokuGrid;
   solution: SudokuGrid;
   initialGrid: SudokuGrid;
+  marks: PencilMarks;
+  entryMode: EntryMode;
+  // Centre marks follow the candidates as digits are placed and removed
+  autoCandidates: boolean;
+  history: MoveHistory;
+  solutionCount: number;
+  grade: PuzzleGrade | null;
+  hint: Hint | null;
+  // How much of the current hint is revealed
+  hintLevel: HintLevel;
+  // Number of times each hint level was revealed this game
+  hintsUsed: Record<HintLevel, number>;
+  // Values entered that disagree with the solution
+  mistakes: number;
+  // Mistakes that lose the game; null plays on whatever the count
+  strikeLimit: number | null;
+  // Lost on reaching the strike limit: the board is locked like a completed one
+  isGameOver: boolean;
+  // Chosen when the game starts and kept for its whole life
+  assistLevel: AssistLevel;
+  // The "Solve" button filled in the rest
+  usedSolve: boolean;
   isComplete: boolean;
   errors: Set<string>;
-  selectedCell: { row: number; col: number } | null;
+  // Most recently selected cell last
+  selectedCells: CellPosition[];
   difficulty: Difficulty;
   gridConfig: GridConfig;
-  startTime: number;
-  endTime?: number;
+  // Together with size and difficulty, regenerates this exact puzzle
+  seed: number;
+  clock: GameClock;
+  // Board hidden and clock stopped, by the pause button or on leaving the tab
+  isPaused: boolean;
+  finishedAt?: number;
+}
+
+// What the saved-games list shows without loading the game itself
+export interface SavedGameSummary {
+  id: string;
+  gridConfig: GridConfig;
+  difficulty: Difficulty;
+  // Percentage of cells filled
+  progress: number;
+  elapsedMs: number;
+  lastPlayed: number;
+}
+
+// One finished game, as kept for the statistics page
+export interface GameRecord {
+  id: string;
+  size: GridSize;
+  difficulty: Difficulty;
+  seed: number;
+  elapsedMs: number;
+  hintsUsed: number;
+  mistakes: number;
+  usedSolve: boolean;
+  // Finished by the player, without "Solve"
+  won: boolean;
+  // Lost on the strike limit; missing from records made before there was one
+  struckOut?: boolean;
+  // Missing from records made before assist levels, which played with conflicts shown
+  assistLevel?: AssistLevel;
+  finishedAt: number;
+}
+
+export interface CategoryStats {
+  size: GridSize;
+  difficulty: Difficulty;
+  played: number;
+  won: number;
+  // Over won games only; null until there is one
+  bestTimeMs: number | null;
+  averageTimeMs: number | null;
+}
+
+export interface PlayerStats {
+  played: number;
+  won: number;
+  // Percentage of played games won
+  winRate: number;
+  currentStreak: number;
+  longestStreak: number;
+  // Per game played, to one decimal
+  averageMistakes: number;
+  // Won games by the assist level they were played with
+  winsByAssist: Record<AssistLevel, number>;
+  // Every size and difficulty played, smallest grid and easiest first
+  categories: CategoryStats[];
+}
+
+// Cells lit up around the selected cell, keyed like the error set
+export interface CellHighlights {
+  // Row, column and box of the selected cell
+  peers: Set<string>;
+  // Digit in the selected cell, null when it is empty
+  digit: number | null;
+  // Other cells holding that digit
+  sameDigit: Set<string>;
+  // Empty cells with that digit among their pencil marks
+  candidates: Set<string>;
 }
 
 export interface CellPosition {
@@ -31,3 +174,103 @@ export interface ValidationResult {
   isValid: boolean;
   conflicts: CellPosition[];
 }
+
+export interface SudokuUnit {
+  type: 'row' | 'col' | 'box';
+  index: number;
+}
+
+export interface CellDigit {
+  row: number;
+  col: number;
+  value: number;
+}
+
+export type SolvingTechnique =
+  | 'hidden-single'
+  | 'naked-single'
+  | 'pointing-pair'
+  | 'box-line-reduction'
+  | 'naked-pair'
+  | 'hidden-pair'
+  | 'naked-triple'
+  | 'hidden-triple'
+  | 'x-wing'
+  | 'swordfish'
+  | 'xy-wing'
+  | 'simple-coloring';
+
+export interface LogicalStep {
+  technique: SolvingTechnique;
+  placements: CellDigit[];
+  eliminations: CellDigit[];
+  // Cells forming the pattern that justifies the step
+  cells: CellPosition[];
+  digits: number[];
+  unit?: SudokuUnit;
+}
+
+/**
+ * 1: highlight the region, 2: name the technique, 3: point to the cell, 4: fill in the value
+ */
+export type HintLevel = 1 | 2 | 3 | 4;
+
+export interface Hint {
+  // Hardest technique behind the hint, null when no known technique applies
+  technique: SolvingTechnique | null;
+  // One sentence per deduction, ending with the one that places the digit
+  descriptions: string[];
+  // Cells involved in the deductions
+  cells: CellPosition[];
+  // Region highlighted first: the unit of the placing step, or the target's box
+  unit: SudokuUnit;
+  placement: CellDigit;
+}
+
+export interface PuzzleGrade {
+  solved: boolean;
+  score: number;
+  difficulty: Difficulty;
+  hardestTechnique: SolvingTechnique | null;
+  techniqueCounts: Partial<Record<SolvingTechnique, number>>;
+}
+
+export interface GenerationOptions {
+  symmetry?: ClueSymmetry;
+  // Ignore the difficulty's clue target and remove clues until every one left is needed.
+  // Clues are then removed one at a time, so this overrides the symmetry.
+  minimal?: boolean;
+}
+
+// Everything about a new game besides its size and difficulty
+export interface NewGameOptions extends GenerationOptions {
+  // Without one, a random seed is picked
+  seed?: number;
+  // Mistakes that end the game; null or missing never ends it
+  strikeLimit?: number | null;
+  assistLevel?: AssistLevel;
+}
+
+export interface GeneratedPuzzle {
+  puzzle: SudokuGrid;
+  solution: SudokuGrid;
+  gridConfig: GridConfig;
+  // Replays this exact puzzle when passed back with the same size, difficulty and options
+  seed: number;
+  clueCount: number;
+  solutionCount: number;
+  grade: PuzzleGrade;
+}
+
+/**
+ * Messages between the app and the puzzle worker. Every request carries an id
+ * that the matching response echoes back.
+ */
+export type PuzzleWorkerRequest =
+  | { type: 'generate'; id: number; size: GridSize; difficulty: Difficulty; seed: number; options: GenerationOptions }
+  | { type: 'hint'; id: number; grid: SudokuGrid; solution: SudokuGrid; gridConfig: GridConfig };
+
+export type PuzzleWorkerResponse =
+  | { type: 'generated'; id: number; puzzle: GeneratedPuzzle }
+  | { type: 'hint'; id: number; hint: Hint | null }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,41 @@
+import { GameState } from '@/types/sudoku';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { createEmptyMarks } from '@/utils/notes';
+import { createHistory } from '@/utils/history';
+
+/**
+ * A 4x4 game in progress for tests, always built from the same seed.
+ * Tests override just the fields they care about.
+ */
+export const createTestGame = (overrides: Partial<GameState> = {}): GameState => {
+  const { puzzle, solution, gridConfig, seed, solutionCount, grade } = SudokuGenerator.generatePuzzle(4, 'easy', 42);
+  return {
+    id: 'game-1',
+    grid: puzzle,
+    solution,
+    initialGrid: SudokuGenerator.copyGrid(puzzle),
+    marks: createEmptyMarks(4),
+    entryMode: 'value',
+    autoCandidates: false,
+    history: createHistory(),
+    solutionCount,
+    grade,
+    hint: null,
+    hintLevel: 1,
+    hintsUsed: { 1: 0, 2: 0, 3: 0, 4: 0 },
+    mistakes: 0,
+    strikeLimit: null,
+    isGameOver: false,
+    assistLevel: 'conflicts',
+    usedSolve: false,
+    isComplete: false,
+    errors: new Set(),
+    selectedCells: [],
+    difficulty: 'easy',
+    gridConfig,
+    seed,
+    clock: { elapsedMs: 0, runningSince: 1_000 },
+    isPaused: false,
+    ...overrides,
+  };
+};
@@ -0,0 +1,28 @@
+import { getMistakeCells, hasAssist } from '@/utils/assist';
+
+describe('assist', () => {
+  it('should give each level the help of the levels below it', () => {
+    expect(hasAssist('none', 'conflicts')).toBe(false);
+    expect(hasAssist('conflicts', 'conflicts')).toBe(true);
+    expect(hasAssist('conflicts', 'mistakes')).toBe(false);
+    expect(hasAssist('full', 'mistakes')).toBe(true);
+    expect(hasAssist('mistakes', 'full')).toBe(false);
+  });
+
+  it('should find values that disagree with the solution', () => {
+    const solution = [
+      [1, 2, 3, 4],
+      [3, 4, 1, 2],
+      [2, 1, 4, 3],
+      [4, 3, 2, 1],
+    ];
+    const grid = [
+      [1, null, 4, null],
+      [null, 4, null, null],
+      [null, null, null, 2],
+      [4, null, null, null],
+    ];
+
+    expect(Array.from(getMistakeCells(grid, solution))).toEqual(['0-2', '2-3']);
+  });
+});
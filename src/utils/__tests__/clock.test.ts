@@ -0,0 +1,22 @@
+import { createClock, pauseClock, readClock, resumeClock } from '@/utils/clock';
+
+describe('clock', () => {
+  it('should count time only while running', () => {
+    const clock = createClock(1_000);
+    expect(readClock(clock, 4_000)).toBe(3_000);
+
+    const paused = pauseClock(clock, 4_000);
+    expect(readClock(paused, 60_000)).toBe(3_000);
+
+    const resumed = resumeClock(paused, 60_000);
+    expect(readClock(resumed, 62_500)).toBe(5_500);
+  });
+
+  it('should leave a clock alone when it is already in that state', () => {
+    const running = createClock(1_000);
+    const paused = pauseClock(running, 2_000);
+
+    expect(resumeClock(running, 5_000)).toBe(running);
+    expect(pauseClock(paused, 5_000)).toBe(paused);
+  });
+});
@@ -0,0 +1,113 @@
+import { DancingLinks } from '@/utils/dancingLinks';
+import { SudokuSolver } from '@/utils/sudokuSolver';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { getGridConfig } from '@/utils/gridConfig';
+import { SolverAlgorithm, SudokuGrid } from '@/types/sudoku';
+
+// Digits written in base 17 (1-9, A-G), '0' or '.' for empty cells
+const parseGrid = (puzzle: string, size: number): SudokuGrid =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      const char = puzzle[row * size + col];
+      return char === '.' || char === '0' ? null : parseInt(char, 17);
+    })
+  );
+
+describe('DancingLinks', () => {
+  const config4x4 = getGridConfig(4);
+  const config9x9 = getGridConfig(9);
+  const config16x16 = getGridConfig(16);
+
+  const puzzle9x9 = parseGrid('530070000600195000098000060800060003400803001700020006060000280000419005000080079', 9);
+  // Unique 16×16 puzzle that backtracking still finishes in well under a second
+  const puzzle16x16 = parseGrid(
+    'A.D5..FB41...3.G.G7923..6....BA.4BC289..3.7..F......GEA.DBF..47...2E9....F1.7D..B...D...2E....4.67.DE82.B.34F....1....3.C.....B....CB29E168F.G.4.6.1..GF94C.B.D7....C.78G2.E..618A9..461..5.2CF...B.4..2.C6..A.FG...6.59..D....B.9A71...F..2...DE2.4..D.89B.C7..',
+    16
+  );
+
+  describe('solve', () => {
+    it('should find the same solution as backtracking', () => {
+      [{ puzzle: puzzle9x9, config: config9x9 }, { puzzle: puzzle16x16, config: config16x16 }].forEach(
+        ({ puzzle, config }) => {
+          const expected = SudokuGenerator.copyGrid(puzzle);
+          SudokuSolver.solve(expected, config, 'backtracking');
+
+          const grid = SudokuGenerator.copyGrid(puzzle);
+          expect(DancingLinks.solve(grid, config)).toBe(true);
+          expect(grid).toEqual(expected);
+        }
+      );
+    });
+
+    it('should solve generated 25x25 puzzles', () => {
+      const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle(25, 'medium');
+
+      expect(DancingLinks.solve(puzzle, gridConfig)).toBe(true);
+      expect(puzzle).toEqual(solution);
+    });
+
+    it('should return false when the givens conflict', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+      grid[0][0] = 1;
+      grid[0][1] = 1;
+
+      expect(DancingLinks.solve(grid, config4x4)).toBe(false);
+    });
+  });
+
+  describe('countSolutions', () => {
+    it('should count every solution of an empty 4x4 grid', () => {
+      expect(DancingLinks.countSolutions(SudokuGenerator.createEmptyGrid(4), config4x4, 1000)).toBe(288);
+    });
+
+    it('should stop once the step budget runs out', () => {
+      const budget = { steps: 10 };
+
+      expect(DancingLinks.countSolutions(SudokuGenerator.createEmptyGrid(16), config16x16, 2, budget)).toBe(0);
+      expect(budget.steps).toBeLessThan(0);
+    });
+
+    it('should not modify the input grid', () => {
+      const before = SudokuGenerator.copyGrid(puzzle16x16);
+      DancingLinks.countSolutions(puzzle16x16, config16x16);
+
+      expect(puzzle16x16).toEqual(before);
+    });
+  });
+
+  describe('algorithm selection', () => {
+    it('should use Dancing Links for large grids only', () => {
+      expect(SudokuSolver.getDefaultAlgorithm(config9x9)).toBe('backtracking');
+      expect(SudokuSolver.getDefaultAlgorithm(getGridConfig(12))).toBe('dancing-links');
+      expect(SudokuSolver.getDefaultAlgorithm(getGridConfig(25))).toBe('dancing-links');
+    });
+
+    it('should agree with backtracking through the SudokuSolver interface', () => {
+      const algorithms: SolverAlgorithm[] = ['backtracking', 'dancing-links'];
+      const empty6x6 = SudokuGenerator.createEmptyGrid(6);
+
+      algorithms.forEach(algorithm => {
+        expect(SudokuSolver.countSolutions(empty6x6, getGridConfig(6), 50, algorithm)).toBe(50);
+        expect(SudokuSolver.hasUniqueSolution(puzzle9x9, config9x9, Infinity, algorithm)).toBe(true);
+      });
+    });
+  });
+
+  // Step budgets rather than wall-clock time, so the results don't depend on machine load
+  describe('search effort', () => {
+    it('should prove a 16x16 puzzle unique on a budget backtracking runs out of', () => {
+      const maxSteps = 500;
+
+      expect(SudokuSolver.hasUniqueSolution(puzzle16x16, config16x16, maxSteps, 'dancing-links')).toBe(true);
+      expect(SudokuSolver.hasUniqueSolution(puzzle16x16, config16x16, maxSteps, 'backtracking')).toBe(false);
+    });
+
+    it('should check a 9x9 puzzle on the same budget as backtracking', () => {
+      const algorithms: SolverAlgorithm[] = ['backtracking', 'dancing-links'];
+
+      algorithms.forEach(algorithm => {
+        expect(SudokuSolver.hasUniqueSolution(puzzle9x9, config9x9, 100, algorithm)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { GameLibrary, summarizeGame } from '@/utils/gameLibrary';
+import { createTestGame } from '@/utils/__fixtures__/gameState';
+
+// Just enough of IndexedDB for GameLibrary: keyed object stores whose requests settle asynchronously
+class FakeRequest<T> {
+  result!: T;
+  error: DOMException | null = null;
+  onsuccess: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onupgradeneeded: (() => void) | null = null;
+
+  constructor(run: (request: FakeRequest<T>) => T) {
+    Promise.resolve().then(() => {
+      this.result = run(this);
+      this.onsuccess?.();
+    });
+  }
+}
+
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  const objectStore = (name: string) => {
+    const records = stores.get(name)!;
+    return {
+      getAll: () => new FakeRequest(() => Array.from(records.values()).map(copy)),
+      get: (id: string) => new FakeRequest(() => (records.has(id) ? copy(records.get(id)) : undefined)),
+      put: (record: { id: string }) => new FakeRequest(() => void records.set(record.id, copy(record))),
+      delete: (id: string) => new FakeRequest(() => void records.delete(id)),
+    };
+  };
+  const database = {
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => ({ objectStore: () => objectStore(name) }),
+  };
+
+  return {
+    factory: {
+      open: () =>
+        new FakeRequest(request => {
+          request.result = database;
+          if (stores.size === 0) request.onupgradeneeded?.();
+          return database;
+        }),
+    } as unknown as IDBFactory,
+    clear: () => stores.forEach(records => records.clear()),
+  };
+};
+
+describe('GameLibrary', () => {
+  it('should summarize a game for the saved-games list', () => {
+    const game = createTestGame();
+    const filled = game.grid.flat().filter(cell => cell !== null).length;
+
+    expect(summarizeGame(game, 61_000)).toEqual({
+      id: 'game-1',
+      gridConfig: game.gridConfig,
+      difficulty: 'easy',
+      progress: Math.round((filled / 16) * 100),
+      elapsedMs: 60_000,
+      lastPlayed: 61_000,
+    });
+  });
+
+  it('should be empty where IndexedDB is missing', async () => {
+    // jsdom has no IndexedDB, like server rendering and some private modes
+    expect(GameLibrary.isAvailable()).toBe(false);
+    await expect(GameLibrary.list()).resolves.toEqual([]);
+    await expect(GameLibrary.load('game-1')).resolves.toBeNull();
+    await expect(GameLibrary.duplicate('game-1')).resolves.toBeNull();
+  });
+
+  describe('with IndexedDB', () => {
+    const fakeIndexedDB = createFakeIndexedDB();
+    let now: jest.SpyInstance<number, []>;
+
+    beforeAll(() => {
+      Object.defineProperty(window, 'indexedDB', { value: fakeIndexedDB.factory, configurable: true });
+    });
+
+    afterAll(() => {
+      delete (window as { indexedDB?: IDBFactory }).indexedDB;
+    });
+
+    beforeEach(() => {
+      fakeIndexedDB.clear();
+      now = jest.spyOn(Date, 'now').mockReturnValue(5_000);
+    });
+
+    afterEach(() => now.mockRestore());
+
+    it('should load a saved game as it was left', async () => {
+      const game = createTestGame({ errors: new Set(['0-1']) });
+      await GameLibrary.save(game);
+
+      expect(GameLibrary.isAvailable()).toBe(true);
+      await expect(GameLibrary.load('game-1')).resolves.toEqual({
+        ...game,
+        clock: { elapsedMs: 4_000, runningSince: 5_000 },
+      });
+      await expect(GameLibrary.load('missing')).resolves.toBeNull();
+    });
+
+    it('should list saved games, most recently played first', async () => {
+      const playedAt = [['first', 1_000], ['last', 3_000], ['middle', 2_000]] as const;
+      for (const [id, time] of playedAt) {
+        now.mockReturnValue(time);
+        await GameLibrary.save(createTestGame({ id }));
+      }
+
+      const games = await GameLibrary.list();
+      expect(games.map(game => game.id)).toEqual(['last', 'middle', 'first']);
+      expect(games[0]).toEqual(summarizeGame(createTestGame({ id: 'last' }), 3_000));
+    });
+
+    it('should replace a game saved again under the same id', async () => {
+      await GameLibrary.save(createTestGame());
+      await GameLibrary.save(createTestGame({ mistakes: 2 }));
+
+      await expect(GameLibrary.list()).resolves.toHaveLength(1);
+      expect((await GameLibrary.load('game-1'))?.mistakes).toBe(2);
+    });
+
+    it('should duplicate a game into a new slot', async () => {
+      await GameLibrary.save(createTestGame());
+      const copyId = await GameLibrary.duplicate('game-1');
+
+      expect(copyId).not.toBe('game-1');
+      expect((await GameLibrary.list()).map(game => game.id).sort()).toEqual([copyId, 'game-1'].sort());
+      expect((await GameLibrary.load(copyId!))?.grid).toEqual(createTestGame().grid);
+      await expect(GameLibrary.duplicate('missing')).resolves.toBeNull();
+    });
+
+    it('should remove a game', async () => {
+      await GameLibrary.save(createTestGame({ id: 'kept' }));
+      await GameLibrary.save(createTestGame({ id: 'removed' }));
+      await GameLibrary.remove('removed');
+
+      expect((await GameLibrary.list()).map(game => game.id)).toEqual(['kept']);
+      await expect(GameLibrary.load('removed')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { getCellHighlights } from '@/utils/highlight';
+import { getGridConfig } from '@/utils/gridConfig';
+import { createEmptyMarks, toggleNote } from '@/utils/notes';
+
+describe('getCellHighlights', () => {
+  const gridConfig = getGridConfig(4);
+  const grid = [
+    [1, null, null, null],
+    [null, null, 1, null],
+    [null, 2, null, null],
+    [null, null, null, null],
+  ];
+
+  it('should light up the row, column and box of the selected cell', () => {
+    const { peers } = getCellHighlights(grid, createEmptyMarks(4), { row: 0, col: 0 }, gridConfig);
+
+    expect(Array.from(peers).sort()).toEqual(['0-1', '0-2', '0-3', '1-0', '1-1', '2-0', '3-0']);
+  });
+
+  it('should find the same digit placed or pencilled in elsewhere', () => {
+    const marks = createEmptyMarks(4);
+    marks.centre = toggleNote(marks.centre, [{ row: 3, col: 3 }], 1);
+    marks.corner = toggleNote(marks.corner, [{ row: 2, col: 0 }], 1);
+    // Marks under a placed digit don't count
+    marks.centre = toggleNote(marks.centre, [{ row: 2, col: 1 }], 1);
+
+    const highlights = getCellHighlights(grid, marks, { row: 0, col: 0 }, gridConfig);
+
+    expect(highlights.digit).toBe(1);
+    expect(Array.from(highlights.sameDigit)).toEqual(['1-2']);
+    expect(Array.from(highlights.candidates).sort()).toEqual(['2-0', '3-3']);
+  });
+
+  it('should highlight only peers around an empty cell, and nothing without a selection', () => {
+    const empty = getCellHighlights(grid, createEmptyMarks(4), { row: 3, col: 3 }, gridConfig);
+    expect(empty.digit).toBeNull();
+    expect(empty.sameDigit.size).toBe(0);
+    expect(empty.peers.size).toBe(7);
+
+    expect(getCellHighlights(grid, createEmptyMarks(4), undefined, gridConfig).peers.size).toBe(0);
+  });
+});
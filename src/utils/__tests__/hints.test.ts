@@ -0,0 +1,43 @@
+import { findHint, getHintRegion } from '@/utils/hints';
+import { SudokuSolver } from '@/utils/sudokuSolver';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { getGridConfig } from '@/utils/gridConfig';
+import { SudokuGrid } from '@/types/sudoku';
+
+const parseGrid = (puzzle: string, size: number): SudokuGrid =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      const digit = Number(puzzle[row * size + col]);
+      return digit === 0 ? null : digit;
+    })
+  );
+
+describe('hints', () => {
+  const config6x6 = getGridConfig(6);
+  // The first deduction is a naked single: r1c6 can only be 4
+  const nakedSinglePuzzle = parseGrid('306000050000000401000032005200400015', 6);
+  const solution = SudokuGenerator.copyGrid(nakedSinglePuzzle);
+  SudokuSolver.solve(solution, config6x6);
+
+  it('should highlight the whole box of a naked single', () => {
+    const hint = findHint(nakedSinglePuzzle, solution, config6x6)!;
+    const region = getHintRegion(hint, config6x6);
+
+    expect(hint.technique).toBe('naked-single');
+    expect(hint.placement).toEqual({ row: 0, col: 5, value: 4 });
+    expect(hint.unit).toEqual({ type: 'box', index: 1 });
+    expect(region).toHaveLength(6);
+    expect(region).toContainEqual({ row: 0, col: 5 });
+  });
+
+  it('should highlight the whole box of a hint beyond known techniques', () => {
+    const empty = SudokuGenerator.createEmptyGrid(6);
+    const hint = findHint(empty, solution, config6x6)!;
+    const { row, col } = hint.placement;
+
+    expect(hint.technique).toBeNull();
+    expect(hint.unit.type).toBe('box');
+    expect(getHintRegion(hint, config6x6)).toHaveLength(6);
+    expect(getHintRegion(hint, config6x6)).toContainEqual({ row, col });
+  });
+});
@@ -0,0 +1,63 @@
+import { applyChanges, createHistory, diffBoards, recordMove, MAX_HISTORY_LENGTH, Board } from '@/utils/history';
+import { createEmptyMarks, toggleNote } from '@/utils/notes';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+
+const createBoard = (size: number): Board => ({
+  grid: SudokuGenerator.createEmptyGrid(size),
+  marks: createEmptyMarks(size),
+});
+
+const placeValue = (board: Board, row: number, col: number, value: number): Board => {
+  const grid = SudokuGenerator.copyGrid(board.grid);
+  grid[row][col] = value;
+  return { ...board, grid };
+};
+
+describe('history', () => {
+  it('should only list the cells a move changed', () => {
+    const before = createBoard(4);
+    const after = {
+      grid: placeValue(before, 0, 1, 3).grid,
+      marks: { ...before.marks, corner: toggleNote(before.marks.corner, [{ row: 2, col: 2 }], 4) },
+    };
+
+    expect(diffBoards(before, after)).toEqual([
+      { row: 0, col: 1, before: { value: null, centre: 0, corner: 0 }, after: { value: 3, centre: 0, corner: 0 } },
+      { row: 2, col: 2, before: { value: null, centre: 0, corner: 0 }, after: { value: null, centre: 0, corner: 0b1000 } },
+    ]);
+  });
+
+  it('should step a move back and forth', () => {
+    const before = createBoard(6);
+    const after = placeValue(placeValue(before, 1, 1, 5), 4, 2, 6);
+    const [move] = recordMove(createHistory(), before, after).past;
+
+    expect(applyChanges(after, move, 'before')).toEqual(before);
+    expect(applyChanges(before, move, 'after')).toEqual(after);
+  });
+
+  it('should skip moves that change nothing and drop the redo stack on a new move', () => {
+    const board = createBoard(4);
+    const history = { past: [], future: [diffBoards(board, placeValue(board, 0, 0, 1))] };
+
+    expect(recordMove(history, board, { ...board })).toBe(history);
+
+    const next = recordMove(history, board, placeValue(board, 3, 3, 2));
+    expect(next.past).toHaveLength(1);
+    expect(next.future).toEqual([]);
+  });
+
+  it('should keep only the most recent moves', () => {
+    let board = createBoard(4);
+    let history = createHistory();
+    for (let i = 0; i <= MAX_HISTORY_LENGTH; i++) {
+      const next = placeValue(board, 0, 0, (i % 4) + 1);
+      history = recordMove(history, board, next);
+      board = next;
+    }
+
+    expect(history.past).toHaveLength(MAX_HISTORY_LENGTH);
+    // The very first move (empty → 1) is gone
+    expect(history.past[0][0].before.value).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { getLetterValue, getNavigationTarget, pushDigit } from '@/utils/keyboard';
+
+describe('keyboard', () => {
+  describe('pushDigit', () => {
+    it('should enter a digit straight away when no second digit could follow', () => {
+      expect(pushDigit('', '7', 9)).toEqual({ value: 7, buffer: '' });
+      expect(pushDigit('', '2', 16)).toEqual({ value: 2, buffer: '' });
+      expect(pushDigit('', '5', 4)).toEqual({ value: null, buffer: '' });
+    });
+
+    it('should hold a first digit back and combine it with the second', () => {
+      expect(pushDigit('', '1', 16)).toEqual({ value: null, buffer: '1' });
+      expect(pushDigit('1', '6', 16)).toEqual({ value: 16, buffer: '' });
+      expect(pushDigit('2', '5', 25)).toEqual({ value: 25, buffer: '' });
+    });
+
+    it('should start over when the second digit does not fit', () => {
+      expect(pushDigit('1', '7', 16)).toEqual({ value: 7, buffer: '' });
+      expect(pushDigit('2', '9', 25)).toEqual({ value: 9, buffer: '' });
+    });
+
+    it('should keep a lone 0 meaning 10 on grids above 9', () => {
+      expect(pushDigit('', '0', 16)).toEqual({ value: 10, buffer: '' });
+      expect(pushDigit('', '0', 9)).toEqual({ value: null, buffer: '' });
+    });
+  });
+
+  it('should read letters as values above 9', () => {
+    expect(getLetterValue('A', 16)).toBe(10);
+    expect(getLetterValue('g', 16)).toBe(16);
+    expect(getLetterValue('H', 16)).toBeNull();
+    expect(getLetterValue('P', 25)).toBe(25);
+    expect(getLetterValue('Enter', 25)).toBeNull();
+  });
+
+  describe('getNavigationTarget', () => {
+    it('should wrap arrows around the edges of the grid', () => {
+      expect(getNavigationTarget({ row: 0, col: 3 }, 'ArrowRight', 4)).toEqual({ row: 0, col: 0 });
+      expect(getNavigationTarget({ row: 0, col: 0 }, 'ArrowUp', 16)).toEqual({ row: 15, col: 0 });
+      expect(getNavigationTarget({ row: 8, col: 5 }, 'ArrowDown', 16)).toEqual({ row: 9, col: 5 });
+    });
+
+    it('should jump to the ends of the row, column or grid', () => {
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'Home', 9)).toEqual({ row: 4, col: 0 });
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'End', 9)).toEqual({ row: 4, col: 8 });
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'PageUp', 9)).toEqual({ row: 0, col: 7 });
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'PageDown', 9)).toEqual({ row: 8, col: 7 });
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'End', 25, true)).toEqual({ row: 24, col: 24 });
+      expect(getNavigationTarget({ row: 4, col: 7 }, 'Enter', 9)).toBeNull();
+    });
+  });
+});
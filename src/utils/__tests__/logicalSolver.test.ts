@@ -0,0 +1,145 @@
+import { LogicalSolver } from '@/utils/logicalSolver';
+import { SudokuSolver } from '@/utils/sudokuSolver';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { getGridConfig } from '@/utils/gridConfig';
+import { LogicalStep, SudokuGrid } from '@/types/sudoku';
+
+const parseGrid = (puzzle: string, size = 9): SudokuGrid =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      const digit = Number(puzzle[row * size + col]);
+      return digit === 0 ? null : digit;
+    })
+  );
+
+// Every placement must match the solution and no elimination may remove it
+const expectSoundSteps = (steps: LogicalStep[], solution: SudokuGrid) => {
+  steps.forEach(step => {
+    step.placements.forEach(({ row, col, value }) => expect(solution[row][col]).toBe(value));
+    step.eliminations.forEach(({ row, col, value }) => expect(solution[row][col]).not.toBe(value));
+  });
+};
+
+const solutionOf = (puzzle: SudokuGrid, size: 9 | 16 = 9) => {
+  const solution = SudokuGenerator.copyGrid(puzzle);
+  SudokuSolver.solve(solution, getGridConfig(size));
+  return solution;
+};
+
+describe('LogicalSolver', () => {
+  const config9x9 = getGridConfig(9);
+
+  // Solvable with hidden singles alone
+  const singlesPuzzle = parseGrid('530070000600195000098000060800060003400803001700020006060000280000419005000080079');
+  // Needs intersections, a hidden pair and an X-Wing
+  const xWingPuzzle = parseGrid('100000569492056108056109240009640801064010000218035604040500016905061402621000005');
+  // No human technique gets a foothold
+  const guessingPuzzle = parseGrid('800000000003600000070090200050007000000045700000100030001000068008500010090000400');
+
+  describe('solve', () => {
+    it('should solve an easy puzzle with singles only', () => {
+      const { grid, steps, grade } = LogicalSolver.solve(singlesPuzzle, config9x9);
+
+      expect(grade.solved).toBe(true);
+      expect(grid).toEqual(solutionOf(singlesPuzzle));
+      expect(steps.every(step => step.technique === 'hidden-single')).toBe(true);
+    });
+
+    it('should record advanced techniques when they are needed', () => {
+      const { grade } = LogicalSolver.solve(xWingPuzzle, config9x9);
+
+      expect(grade.solved).toBe(true);
+      expect(grade.hardestTechnique).toBe('x-wing');
+      expect(grade.techniqueCounts['x-wing']).toBe(1);
+      expect(grade.techniqueCounts['hidden-pair']).toBeGreaterThan(0);
+    });
+
+    it('should only make deductions consistent with the solution', () => {
+      [singlesPuzzle, xWingPuzzle, guessingPuzzle].forEach(puzzle => {
+        const { steps } = LogicalSolver.solve(puzzle, config9x9);
+        expectSoundSteps(steps, solutionOf(puzzle));
+      });
+    });
+
+    it('should make sound deductions on generated puzzles of other sizes', () => {
+      const sizes = [6, 12, 16] as const;
+
+      sizes.forEach(size => {
+        const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle(size, 'expert');
+        const { steps } = LogicalSolver.solve(puzzle, gridConfig);
+        expectSoundSteps(steps, solution);
+      });
+    });
+
+    it('should not modify the input grid', () => {
+      const before = SudokuGenerator.copyGrid(singlesPuzzle);
+      LogicalSolver.solve(singlesPuzzle, config9x9);
+
+      expect(singlesPuzzle).toEqual(before);
+    });
+  });
+
+  describe('grade', () => {
+    it('should grade puzzles by their hardest technique', () => {
+      expect(LogicalSolver.grade(singlesPuzzle, config9x9).difficulty).toBe('beginner');
+      expect(LogicalSolver.grade(xWingPuzzle, config9x9).difficulty).toBe('hard');
+    });
+
+    it('should grade puzzles that need guessing as expert', () => {
+      const grade = LogicalSolver.grade(guessingPuzzle, config9x9);
+
+      expect(grade.solved).toBe(false);
+      expect(grade.difficulty).toBe('expert');
+      expect(grade.score).toBeGreaterThan(LogicalSolver.grade(xWingPuzzle, config9x9).score);
+    });
+
+    it('should give harder puzzles a higher score', () => {
+      const easyScore = LogicalSolver.grade(singlesPuzzle, config9x9).score;
+      const hardScore = LogicalSolver.grade(xWingPuzzle, config9x9).score;
+
+      expect(hardScore).toBeGreaterThan(easyScore);
+    });
+  });
+
+  describe('getHint', () => {
+    it('should explain a hidden single in words', () => {
+      const hint = LogicalSolver.getHint(singlesPuzzle, config9x9)!;
+      const { row, col, value } = hint.placement;
+
+      expect(hint.technique).toBe('hidden-single');
+      expect(hint.descriptions).toHaveLength(1);
+      expect(hint.descriptions[0]).toMatch(
+        new RegExp(`^Hidden single: ${value} can only go in r${row + 1}c${col + 1} within (row|column|box) \\d+$`)
+      );
+      expect(hint.cells).toContainEqual({ row, col });
+    });
+
+    it('should point to a placement that matches the solution', () => {
+      [singlesPuzzle, xWingPuzzle].forEach(puzzle => {
+        const { row, col, value } = LogicalSolver.getHint(puzzle, config9x9)!.placement;
+
+        expect(puzzle[row][col]).toBeNull();
+        expect(solutionOf(puzzle)[row][col]).toBe(value);
+      });
+    });
+
+    it('should include the eliminations that lead to the placement', () => {
+      // Play the X-Wing puzzle forward until a hint needs more than one deduction
+      const grid = SudokuGenerator.copyGrid(xWingPuzzle);
+      let hint = LogicalSolver.getHint(grid, config9x9);
+      while (hint && hint.descriptions.length === 1) {
+        grid[hint.placement.row][hint.placement.col] = hint.placement.value;
+        hint = LogicalSolver.getHint(grid, config9x9);
+      }
+
+      expect(hint).not.toBeNull();
+      expect(hint!.descriptions.length).toBeGreaterThan(1);
+      expect(hint!.descriptions.slice(0, -1).join(' ')).toMatch(/can be removed/);
+    });
+
+    it('should return null when no technique applies', () => {
+      expect(LogicalSolver.getHint(guessingPuzzle, config9x9)).toBeNull();
+      expect(LogicalSolver.getHint(solutionOf(singlesPuzzle), config9x9)).toBeNull();
+    });
+  });
+});
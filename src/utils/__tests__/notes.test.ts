@@ -0,0 +1,99 @@
+import {
+  createEmptyNotes,
+  createEmptyMarks,
+  mapMarks,
+  toggleNote,
+  clearNotesForPlacement,
+  restoreNotesForRemoval,
+  clearCellNotes,
+} from '@/utils/notes';
+import { getGridConfig } from '@/utils/gridConfig';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { SudokuSolver } from '@/utils/sudokuSolver';
+import { maskToDigits } from '@/utils/bitmask';
+
+describe('notes', () => {
+  it('should toggle a note on and off without touching the original', () => {
+    const empty = createEmptyNotes(6);
+    const withNote = toggleNote(empty, [{ row: 1, col: 2 }], 4);
+
+    expect(maskToDigits(withNote[1][2])).toEqual([4]);
+    expect(empty[1][2]).toBe(0);
+    expect(toggleNote(withNote, [{ row: 1, col: 2 }], 4)[1][2]).toBe(0);
+  });
+
+  it('should add a note to every cell unless all of them already have it', () => {
+    const cells = [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 2, col: 3 }];
+    const partly = toggleNote(createEmptyNotes(6), [cells[0]], 5);
+
+    const added = toggleNote(partly, cells, 5);
+    cells.forEach(({ row, col }) => expect(maskToDigits(added[row][col])).toEqual([5]));
+
+    const removed = toggleNote(added, cells, 5);
+    cells.forEach(({ row, col }) => expect(removed[row][col]).toBe(0));
+  });
+
+  it('should cross a placed digit off in every peer', () => {
+    const config9x9 = getGridConfig(9);
+    let notes = createEmptyNotes(9);
+    [[0, 0], [0, 8], [8, 4], [2, 2], [5, 5], [4, 4]].forEach(([row, col]) => {
+      notes = toggleNote(toggleNote(notes, [{ row, col }], 7), [{ row, col }], 3);
+    });
+
+    const next = clearNotesForPlacement(notes, 4, 4, 7, config9x9);
+
+    // Own cell is emptied, row/column/box peers lose the 7 only
+    expect(next[4][4]).toBe(0);
+    expect(maskToDigits(next[8][4])).toEqual([3]);
+    expect(maskToDigits(next[5][5])).toEqual([3]);
+    // Cells outside every unit keep their notes
+    expect(maskToDigits(next[0][8])).toEqual([3, 7]);
+    expect(maskToDigits(next[2][2])).toEqual([3, 7]);
+  });
+
+  it('should give a removed digit back wherever it fits again', () => {
+    const config4x4 = getGridConfig(4);
+    const grid = SudokuGenerator.createEmptyGrid(4);
+    grid[0][0] = 1;
+    grid[3][3] = 1;
+    const notes = SudokuSolver.getCandidates(grid, config4x4);
+
+    // Take the 1 at (0, 0) out again
+    grid[0][0] = null;
+    const next = restoreNotesForRemoval(notes, 0, 0, 1, SudokuSolver.getCandidates(grid, config4x4), config4x4);
+
+    expect(next).toEqual(SudokuSolver.getCandidates(grid, config4x4));
+    // Row 3 still holds a 1, so (0, 3) stays without it
+    expect(maskToDigits(next[0][3])).not.toContain(1);
+  });
+
+  it('should keep eliminations the removal does not touch', () => {
+    const config4x4 = getGridConfig(4);
+    const grid = SudokuGenerator.createEmptyGrid(4);
+    grid[0][0] = 1;
+    // The player has crossed 3 off (2, 2) by hand
+    const notes = toggleNote(SudokuSolver.getCandidates(grid, config4x4), [{ row: 2, col: 2 }], 3);
+
+    grid[0][0] = null;
+    const next = restoreNotesForRemoval(notes, 0, 0, 1, SudokuSolver.getCandidates(grid, config4x4), config4x4);
+
+    expect(maskToDigits(next[2][2])).toEqual([1, 2, 4]);
+  });
+
+  it('should clear every note of the given cells', () => {
+    const notes = toggleNote(createEmptyNotes(4), [{ row: 0, col: 0 }, { row: 1, col: 1 }, { row: 3, col: 3 }], 2);
+    const next = clearCellNotes(notes, [{ row: 0, col: 0 }, { row: 1, col: 1 }]);
+
+    expect(next[0][0]).toBe(0);
+    expect(next[1][1]).toBe(0);
+    expect(next[3][3]).toBe(notes[3][3]);
+  });
+
+  it('should update centre and corner marks together', () => {
+    const cell = [{ row: 2, col: 2 }];
+    const marks = mapMarks(createEmptyMarks(4), notes => toggleNote(notes, cell, 1));
+
+    expect(marks.centre[2][2]).toBe(1);
+    expect(marks.corner[2][2]).toBe(1);
+  });
+});
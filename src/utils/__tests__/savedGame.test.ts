@@ -0,0 +1,89 @@
+import { deserializeGame, loadSavedGame, saveGame, serializeGame, SAVED_GAME_KEY } from '@/utils/savedGame';
+import { createHistory } from '@/utils/history';
+import { createTestGame } from '@/utils/__fixtures__/gameState';
+
+const createGame = () =>
+  createTestGame({
+    entryMode: 'centre',
+    history: {
+      past: [[{ row: 0, col: 0, before: { value: null, centre: 0, corner: 0 }, after: { value: 2, centre: 0, corner: 0 } }]],
+      future: [],
+    },
+    hintsUsed: { 1: 1, 2: 0, 3: 0, 4: 0 },
+    errors: new Set(['0-1', '0-3']),
+    selectedCells: [{ row: 0, col: 1 }],
+  });
+
+describe('savedGame', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('should restore the whole game, errors included', () => {
+    const game = createGame();
+    const restored = deserializeGame(serializeGame(game, 61_000), 500_000);
+
+    expect(restored).toEqual({ ...game, clock: { elapsedMs: 60_000, runningSince: 500_000 } });
+    expect(restored?.errors).toBeInstanceOf(Set);
+  });
+
+  it('should keep the play time of a completed game', () => {
+    const game = {
+      ...createGame(),
+      isComplete: true,
+      clock: { elapsedMs: 30_000, runningSince: null },
+      finishedAt: 31_000,
+    };
+    const restored = deserializeGame(serializeGame(game, 99_000), 200_000);
+
+    expect(restored?.clock).toEqual({ elapsedMs: 30_000, runningSince: null });
+    expect(restored?.finishedAt).toBe(31_000);
+  });
+
+  it('should not count the time a game spent paused', () => {
+    const game = { ...createGame(), isPaused: true, clock: { elapsedMs: 45_000, runningSince: null } };
+    const restored = deserializeGame(serializeGame(game, 900_000), 1_000_000);
+
+    expect(restored?.isPaused).toBe(false);
+    expect(restored?.clock).toEqual({ elapsedMs: 45_000, runningSince: 1_000_000 });
+  });
+
+  it('should give older saves the settings they were played with', () => {
+    const { strikeLimit, isGameOver, assistLevel, ...older } = JSON.parse(serializeGame(createGame()));
+    const restored = deserializeGame(JSON.stringify(older));
+
+    expect(restored?.strikeLimit).toBeNull();
+    expect(restored?.isGameOver).toBe(false);
+    expect(restored?.assistLevel).toBe('conflicts');
+  });
+
+  it('should ignore saves it cannot read', () => {
+    expect(deserializeGame('not json')).toBeNull();
+    expect(deserializeGame(JSON.stringify({ version: 999 }))).toBeNull();
+    expect(deserializeGame(serializeGame(createGame()).replace('"version":1', '"version":0'))).toBeNull();
+  });
+
+  it('should round-trip through localStorage', () => {
+    const game = createGame();
+    saveGame(game);
+
+    expect(localStorage.getItem(SAVED_GAME_KEY)).not.toBeNull();
+    expect(loadSavedGame()?.grid).toEqual(game.grid);
+  });
+
+  it('should shorten the history when the full save does not fit', () => {
+    const game = createGame();
+    const move = game.history.past[0];
+    const longHistory = { ...createHistory(), past: Array(200).fill(move), future: [move] };
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementationOnce(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    saveGame({ ...game, history: longHistory });
+
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(loadSavedGame()?.history.past).toHaveLength(50);
+    expect(loadSavedGame()?.history.future).toEqual([]);
+  });
+});
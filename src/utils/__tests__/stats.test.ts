@@ -0,0 +1,142 @@
+import { createGameRecord, loadGameRecords, recordFinishedGame, summarizeStats } from '@/utils/stats';
+import { createTestGame } from '@/utils/__fixtures__/gameState';
+import { GameRecord, GameState } from '@/types/sudoku';
+
+let nextId = 0;
+const record = (overrides: Partial<GameRecord>): GameRecord => ({
+  id: `game-${nextId++}`,
+  size: 9,
+  difficulty: 'medium',
+  seed: 1,
+  elapsedMs: 60_000,
+  hintsUsed: 0,
+  mistakes: 0,
+  usedSolve: false,
+  won: true,
+  finishedAt: nextId,
+  ...overrides,
+});
+
+const finishedGame = (overrides: Partial<GameState> = {}): GameState =>
+  createTestGame({
+    id: 'finished',
+    hintsUsed: { 1: 2, 2: 1, 3: 0, 4: 1 },
+    mistakes: 3,
+    isComplete: true,
+    seed: 99,
+    clock: { elapsedMs: 90_000, runningSince: null },
+    finishedAt: 95_000,
+    ...overrides,
+  });
+
+describe('stats', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should record what happened in a finished game', () => {
+    expect(createGameRecord(finishedGame())).toEqual({
+      id: 'finished',
+      size: 4,
+      difficulty: 'easy',
+      seed: 99,
+      elapsedMs: 90_000,
+      hintsUsed: 4,
+      mistakes: 3,
+      usedSolve: false,
+      won: true,
+      struckOut: false,
+      assistLevel: 'conflicts',
+      finishedAt: 95_000,
+    });
+    expect(createGameRecord(finishedGame({ usedSolve: true })).won).toBe(false);
+  });
+
+  it('should count a game lost on strikes as a loss', () => {
+    const lost = createGameRecord(finishedGame({ isComplete: false, isGameOver: true, strikeLimit: 3 }));
+
+    expect(lost.won).toBe(false);
+    expect(lost.struckOut).toBe(true);
+    expect(lost.mistakes).toBe(3);
+  });
+
+  it('should average mistakes over every game played', () => {
+    const stats = summarizeStats([
+      record({ mistakes: 0 }),
+      record({ mistakes: 3, won: false, struckOut: true }),
+      record({ mistakes: 1 }),
+    ]);
+
+    expect(stats.averageMistakes).toBe(1.3);
+    expect(stats.winRate).toBe(67);
+  });
+
+  it('should count streaks in the order games were finished', () => {
+    const stats = summarizeStats([
+      record({ finishedAt: 1 }),
+      record({ finishedAt: 2 }),
+      record({ finishedAt: 3 }),
+      record({ finishedAt: 4, won: false, usedSolve: true }),
+      // Listed out of order on purpose
+      record({ finishedAt: 6 }),
+      record({ finishedAt: 5 }),
+    ]);
+
+    expect(stats.played).toBe(6);
+    expect(stats.won).toBe(5);
+    expect(stats.winRate).toBe(83);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(3);
+  });
+
+  it('should time each size and difficulty over won games only', () => {
+    const stats = summarizeStats([
+      record({ size: 16, difficulty: 'hard', elapsedMs: 900_000 }),
+      record({ size: 4, difficulty: 'expert', elapsedMs: 40_000 }),
+      record({ size: 4, difficulty: 'easy', elapsedMs: 30_000 }),
+      record({ size: 4, difficulty: 'easy', elapsedMs: 50_000 }),
+      record({ size: 4, difficulty: 'easy', elapsedMs: 5_000, won: false, usedSolve: true }),
+    ]);
+
+    expect(stats.categories.map(({ size, difficulty }) => `${size}-${difficulty}`))
+      .toEqual(['4-easy', '4-expert', '16-hard']);
+    expect(stats.categories[0]).toEqual({
+      size: 4,
+      difficulty: 'easy',
+      played: 3,
+      won: 2,
+      bestTimeMs: 30_000,
+      averageTimeMs: 40_000,
+    });
+  });
+
+  it('should count wins by assist level, older records as conflicts only', () => {
+    const stats = summarizeStats([
+      record({ assistLevel: 'none' }),
+      record({ assistLevel: 'full' }),
+      record({ assistLevel: 'full', won: false, usedSolve: true }),
+      record({}),
+    ]);
+
+    expect(stats.winsByAssist).toEqual({ none: 1, conflicts: 1, mistakes: 0, full: 1 });
+  });
+
+  it('should have nothing to show before the first game', () => {
+    expect(summarizeStats([])).toEqual({
+      played: 0,
+      won: 0,
+      winRate: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      averageMistakes: 0,
+      winsByAssist: { none: 0, conflicts: 0, mistakes: 0, full: 0 },
+      categories: [],
+    });
+  });
+
+  it('should store each finished game once', () => {
+    recordFinishedGame(finishedGame());
+    recordFinishedGame(finishedGame());
+    recordFinishedGame(finishedGame({ id: 'another' }));
+
+    expect(loadGameRecords().map(({ id }) => id)).toEqual(['finished', 'another']);
+  });
+});
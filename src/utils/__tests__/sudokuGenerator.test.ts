@@ -1,6 +1,6 @@
 import { SudokuGenerator } from '@/utils/sudokuGenerator';
 import { SudokuSolver } from '@/utils/sudokuSolver';
-import { getGridConfig } from '@/utils/gridConfig';
+import { getGridConfig, getDifficultySettings, getUnitCells } from '@/utils/gridConfig';
 
 describe('SudokuGenerator', () => {
   describe('createEmptyGrid', () => {
@@ -48,12 +48,12 @@ describe('SudokuGenerator', () => {
   });
 
   describe('generatePuzzle', () => {
-    it('should generate a valid puzzle for each difficulty', () => {
-      const difficulties = ['easy', 'medium', 'hard'] as const;
+    it('should generate a valid puzzle for each grid size', () => {
+      const cases = [[4, 'easy'], [6, 'medium'], [16, 'hard']] as const;
       
-      difficulties.forEach(difficulty => {
-        const { puzzle, solution } = SudokuGenerator.generatePuzzle(difficulty);
-        const config = getGridConfig(difficulty);
+      cases.forEach(([size, difficulty]) => {
+        const { puzzle, solution } = SudokuGenerator.generatePuzzle(size, difficulty);
+        const config = getGridConfig(size);
         
         // Check grid dimensions
         expect(puzzle).toHaveLength(config.size);
@@ -90,9 +90,89 @@ describe('SudokuGenerator', () => {
       });
     });
 
+    it('should generate puzzles with a unique solution', () => {
+      const cases = [[4, 'easy'], [6, 'medium']] as const;
+
+      cases.forEach(([size, difficulty]) => {
+        const { puzzle, gridConfig, solutionCount } = SudokuGenerator.generatePuzzle(size, difficulty);
+        expect(SudokuSolver.hasUniqueSolution(puzzle, gridConfig)).toBe(true);
+        expect(solutionCount).toBe(1);
+      });
+    });
+
+    it('should generate different puzzles on each call', () => {
+      const puzzles = Array.from({ length: 5 }, () =>
+        JSON.stringify(SudokuGenerator.generatePuzzle(6, 'medium').solution)
+      );
+
+      expect(new Set(puzzles).size).toBeGreaterThan(1);
+    });
+
+    it('should reproduce the same puzzle from the same seed', () => {
+      const cases = [[6, 'medium'], [9, 'expert'], [16, 'hard']] as const;
+
+      cases.forEach(([size, difficulty]) => {
+        const first = SudokuGenerator.generatePuzzle(size, difficulty, 8812);
+        const second = SudokuGenerator.generatePuzzle(size, difficulty, 8812);
+
+        expect(second.seed).toBe(8812);
+        expect(second.puzzle).toEqual(first.puzzle);
+        expect(second.solution).toEqual(first.solution);
+      });
+    });
+
+    it('should generate different puzzles from different seeds', () => {
+      const { solution: first } = SudokuGenerator.generatePuzzle(9, 'medium', 1);
+      const { solution: second } = SudokuGenerator.generatePuzzle(9, 'medium', 2);
+
+      expect(second).not.toEqual(first);
+    });
+
+    it('should report the number of clues left', () => {
+      const { puzzle, clueCount } = SudokuGenerator.generatePuzzle(9, 'medium');
+
+      expect(clueCount).toBe(puzzle.flat().filter(cell => cell !== null).length);
+    });
+
+    it('should lay out clues with the requested symmetry', () => {
+      const partners = {
+        rotational: (row: number, col: number, size: number) => [size - 1 - row, size - 1 - col],
+        mirror: (row: number, col: number, size: number) => [row, size - 1 - col],
+        diagonal: (row: number, col: number) => [col, row],
+      };
+
+      Object.entries(partners).forEach(([symmetry, partnerOf]) => {
+        const { puzzle, gridConfig } = SudokuGenerator.generatePuzzle(9, 'hard', 5, {
+          symmetry: symmetry as keyof typeof partners,
+        });
+
+        expect(SudokuSolver.hasUniqueSolution(puzzle, gridConfig)).toBe(true);
+        puzzle.forEach((cells, row) => cells.forEach((cell, col) => {
+          const [partnerRow, partnerCol] = partnerOf(row, col, 9);
+          expect(puzzle[partnerRow][partnerCol] === null).toBe(cell === null);
+        }));
+      });
+    });
+
+    it('should leave only necessary clues in minimal mode, whatever the symmetry', () => {
+      const cases = [[6, 'none'], [9, 'none'], [6, 'rotational']] as const;
+
+      cases.forEach(([size, symmetry]) => {
+        const { puzzle, gridConfig } = SudokuGenerator.generatePuzzle(size, 'beginner', 11, { minimal: true, symmetry });
+
+        expect(SudokuSolver.hasUniqueSolution(puzzle, gridConfig)).toBe(true);
+        puzzle.forEach((cells, row) => cells.forEach((cell, col) => {
+          if (cell === null) return;
+          const withoutClue = SudokuGenerator.copyGrid(puzzle);
+          withoutClue[row][col] = null;
+          expect(SudokuSolver.hasUniqueSolution(withoutClue, gridConfig)).toBe(false);
+        }));
+      });
+    });
+
     it('should generate puzzles with appropriate difficulty', () => {
-      const { puzzle: easy } = SudokuGenerator.generatePuzzle('easy');
-      const { puzzle: hard } = SudokuGenerator.generatePuzzle('hard');
+      const { puzzle: beginner } = SudokuGenerator.generatePuzzle(6, 'beginner');
+      const { puzzle: expert } = SudokuGenerator.generatePuzzle(6, 'expert');
       
       const countEmptyCells = (grid: any, size: number) => {
         let count = 0;
@@ -104,31 +184,79 @@ describe('SudokuGenerator', () => {
         return count;
       };
       
-      const easyEmpty = countEmptyCells(easy, 4);
-      const hardEmpty = countEmptyCells(hard, 16);
+      const beginnerEmpty = countEmptyCells(beginner, 6);
+      const expertEmpty = countEmptyCells(expert, 6);
       
-      // Both should have some empty cells
-      expect(easyEmpty).toBeGreaterThan(0);
-      expect(hardEmpty).toBeGreaterThan(0);
+      // Both should have some empty cells, and expert should have more
+      expect(beginnerEmpty).toBeGreaterThan(0);
+      expect(expertEmpty).toBeGreaterThan(beginnerEmpty);
+    });
+
+    it('should support classic 9x9 and rectangular box shapes', () => {
+      const sizes = [8, 9, 10, 12] as const;
+
+      sizes.forEach(size => {
+        const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle(size, 'easy');
+
+        expect(gridConfig.subGridRows * gridConfig.subGridCols).toBe(size);
+        expect(puzzle).toHaveLength(size);
+        expect(SudokuSolver.isComplete(solution, gridConfig)).toBe(true);
+      });
+    });
+
+    it('should report the logical grade of the puzzle', () => {
+      const { grade } = SudokuGenerator.generatePuzzle(9, 'beginner');
+
+      expect(grade.solved).toBe(true);
+      expect(grade.difficulty).toBe('beginner');
+    });
+
+    it('should allow any difficulty on any grid size', () => {
+      const { gridConfig: easyLarge } = SudokuGenerator.generatePuzzle(16, 'beginner');
+      const { gridConfig: hardSmall } = SudokuGenerator.generatePuzzle(4, 'expert');
+
+      expect(easyLarge.size).toBe(16);
+      expect(hardSmall.size).toBe(4);
     });
   });
 
   describe('getDifficultySettings', () => {
     it('should return correct settings for each difficulty', () => {
-      const easy = SudokuGenerator.getDifficultySettings('easy');
-      expect(easy.name).toBe('4×4 Easy');
-      expect(easy.cellsToRemove).toBe(6);
+      const config6x6 = getGridConfig(6);
+
+      const easy = getDifficultySettings('easy', config6x6);
+      expect(easy.name).toBe('Easy');
+      expect(easy.cellsToRemove).toBe(14);
       expect(easy.color).toContain('green');
       
-      const medium = SudokuGenerator.getDifficultySettings('medium');
-      expect(medium.name).toBe('6×6 Medium');
+      const medium = getDifficultySettings('medium', config6x6);
+      expect(medium.name).toBe('Medium');
       expect(medium.cellsToRemove).toBe(18);
       expect(medium.color).toContain('yellow');
       
-      const hard = SudokuGenerator.getDifficultySettings('hard');
-      expect(hard.name).toBe('16×16 Hard');
-      expect(hard.cellsToRemove).toBe(180);
+      const hard = getDifficultySettings('hard', config6x6);
+      expect(hard.name).toBe('Hard');
+      expect(hard.cellsToRemove).toBe(21);
       expect(hard.color).toContain('red');
     });
+
+    it('should scale the number of removed cells with grid size', () => {
+      expect(getDifficultySettings('expert', getGridConfig(4)).cellsToRemove).toBe(11);
+      expect(getDifficultySettings('expert', getGridConfig(16)).cellsToRemove).toBe(179);
+    });
+  });
+
+  describe('getUnitCells', () => {
+    it('should list the cells of rows, columns and rectangular boxes', () => {
+      const config6x6 = getGridConfig(6);
+
+      expect(getUnitCells({ type: 'row', index: 2 }, config6x6)).toContainEqual({ row: 2, col: 5 });
+      expect(getUnitCells({ type: 'col', index: 4 }, config6x6)).toContainEqual({ row: 5, col: 4 });
+      // Box 3 of a 6×6 grid is the right-hand box of the second band
+      expect(getUnitCells({ type: 'box', index: 3 }, config6x6)).toEqual([
+        { row: 2, col: 3 }, { row: 2, col: 4 }, { row: 2, col: 5 },
+        { row: 3, col: 3 }, { row: 3, col: 4 }, { row: 3, col: 5 },
+      ]);
+    });
   });
 });
@@ -1,6 +1,8 @@
 import { SudokuSolver } from '@/utils/sudokuSolver';
 import { SudokuGenerator } from '@/utils/sudokuGenerator';
 import { GridConfig } from '@/types/sudoku';
+import { GRID_SIZES, getGridConfig } from '@/utils/gridConfig';
+import { maskToDigits } from '@/utils/bitmask';
 
 describe('SudokuSolver', () => {
   const gridConfig4x4: GridConfig = {
@@ -76,6 +78,76 @@ describe('SudokuSolver', () => {
     });
   });
 
+  describe('generateComplete', () => {
+    it('should generate a valid solution for every supported grid size', () => {
+      GRID_SIZES.forEach(size => {
+        const config = getGridConfig(size);
+        const grid = SudokuSolver.generateComplete(config);
+
+        expect(grid).toHaveLength(size);
+        expect(SudokuSolver.isComplete(grid, config)).toBe(true);
+      });
+    });
+  });
+
+  describe('countSolutions', () => {
+    const gridConfig6x6: GridConfig = {
+      size: 6,
+      subGridRows: 2,
+      subGridCols: 3,
+      maxNumber: 6
+    };
+
+    it('should count every solution of an empty 4x4 grid', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+
+      expect(SudokuSolver.countSolutions(grid, gridConfig4x4, 1000)).toBe(288);
+    });
+
+    it('should stop counting at the limit', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+
+      expect(SudokuSolver.countSolutions(grid, gridConfig4x4, 5)).toBe(5);
+    });
+
+    it('should return 0 when the givens conflict', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+      grid[0][0] = 1;
+      grid[0][1] = 1;
+
+      expect(SudokuSolver.countSolutions(grid, gridConfig4x4)).toBe(0);
+    });
+
+    it('should not modify the input grid', () => {
+      const grid = SudokuGenerator.createEmptyGrid(6);
+      grid[0][0] = 1;
+      const before = SudokuGenerator.copyGrid(grid);
+
+      SudokuSolver.countSolutions(grid, gridConfig6x6, 3);
+      expect(grid).toEqual(before);
+    });
+  });
+
+  describe('hasUniqueSolution', () => {
+    it('should accept a puzzle with one solution', () => {
+      const puzzle = [
+        [1, null, null, 4],
+        [null, 4, 1, null],
+        [2, null, null, 3],
+        [null, 3, 2, null]
+      ];
+
+      expect(SudokuSolver.hasUniqueSolution(puzzle, gridConfig4x4)).toBe(true);
+    });
+
+    it('should reject a puzzle with several solutions', () => {
+      const puzzle = SudokuGenerator.createEmptyGrid(16);
+      puzzle[0][0] = 1;
+
+      expect(SudokuSolver.hasUniqueSolution(puzzle, gridConfig16x16)).toBe(false);
+    });
+  });
+
   describe('validateGrid', () => {
     it('should return valid for correct grid', () => {
       const grid = SudokuGenerator.createEmptyGrid(4);
@@ -97,6 +169,26 @@ describe('SudokuSolver', () => {
       expect(result.isValid).toBe(false);
       expect(result.conflicts.length).toBeGreaterThan(0);
     });
+
+    it('should flag every cell of a clash in a column or box', () => {
+      const grid = SudokuGenerator.createEmptyGrid(6);
+      grid[0][0] = 4;
+      grid[1][2] = 4; // Same 2x3 box
+      grid[5][0] = 4; // Same column
+      grid[3][4] = 4; // No clash
+
+      const { conflicts } = SudokuSolver.validateGrid(grid, getGridConfig(6));
+      expect(conflicts).toEqual([{ row: 0, col: 0 }, { row: 1, col: 2 }, { row: 5, col: 0 }]);
+    });
+
+    it('should not modify the grid', () => {
+      const grid = SudokuSolver.generateComplete(gridConfig16x16);
+      grid[0][1] = grid[0][0];
+      Object.freeze(grid);
+      grid.forEach(row => Object.freeze(row));
+
+      expect(() => SudokuSolver.validateGrid(grid, gridConfig16x16)).not.toThrow();
+    });
   });
 
   describe('isComplete', () => {
@@ -114,6 +206,40 @@ describe('SudokuSolver', () => {
     });
   });
 
+  describe('getCandidates', () => {
+    it('should list the digits each empty cell can still take', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+      grid[0][0] = 1;
+      grid[0][3] = 4;
+      grid[3][1] = 2;
+
+      const candidates = SudokuSolver.getCandidates(grid, gridConfig4x4);
+
+      expect(maskToDigits(candidates[0][1])).toEqual([3]);
+      expect(maskToDigits(candidates[1][1])).toEqual([3, 4]);
+      expect(maskToDigits(candidates[2][1])).toEqual([1, 3, 4]);
+      // Filled cells have none
+      expect(candidates[0][0]).toBe(0);
+    });
+  });
+
+  describe('getRemainingCounts', () => {
+    it('should count what is left of each digit, stopping at zero', () => {
+      const grid = SudokuGenerator.createEmptyGrid(4);
+      grid[0][0] = 1;
+      grid[1][2] = 1;
+      grid[2][1] = 3;
+      // Five 4s, one more than fits
+      grid[0][1] = 4;
+      grid[1][0] = 4;
+      grid[2][2] = 4;
+      grid[3][3] = 4;
+      grid[3][0] = 4;
+
+      expect(SudokuSolver.getRemainingCounts(grid, gridConfig4x4)).toEqual([2, 4, 3, 0]);
+    });
+  });
+
   describe('getHint', () => {
     it('should return a valid hint position', () => {
       const puzzle = SudokuGenerator.createEmptyGrid(4);
@@ -0,0 +1,31 @@
+import { AssistLevel, SudokuGrid } from '@/types/sudoku';
+
+// Least help first
+export const ASSIST_LEVELS: AssistLevel[] = ['none', 'conflicts', 'mistakes', 'full'];
+
+// What games played before assist levels existed got
+export const DEFAULT_ASSIST_LEVEL: AssistLevel = 'conflicts';
+
+export const ASSIST_LEVEL_LABELS: Record<AssistLevel, string> = {
+  none: 'None',
+  conflicts: 'Conflicts',
+  mistakes: 'Mistakes',
+  full: 'Full',
+};
+
+/**
+ * Whether `level` gives the help that comes with `feature`, levels being cumulative
+ */
+export const hasAssist = (level: AssistLevel, feature: AssistLevel): boolean =>
+  ASSIST_LEVELS.indexOf(level) >= ASSIST_LEVELS.indexOf(feature);
+
+/**
+ * Cells whose value disagrees with the solution, keyed like the error set
+ */
+export const getMistakeCells = (grid: SudokuGrid, solution: SudokuGrid): Set<string> => {
+  const mistakes = new Set<string>();
+  grid.forEach((cells, row) => cells.forEach((value, col) => {
+    if (value !== null && value !== solution[row][col]) mistakes.add(`${row}-${col}`);
+  }));
+  return mistakes;
+};
@@ -0,0 +1,26 @@
+/**
+ * Digit sets as bitmasks: bit (d - 1) set means digit d is in the set.
+ * Grids go up to 25×25, so every set fits in a 32-bit integer.
+ */
+
+export const digitBit = (digit: number) => 1 << (digit - 1);
+
+// Every digit of a grid whose largest digit is `maxNumber`
+export const allDigits = (maxNumber: number) => (1 << maxNumber) - 1;
+
+export const popcount = (mask: number): number => {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+};
+
+export const maskToDigits = (mask: number): number[] => {
+  const digits: number[] = [];
+  for (let digit = 1; mask; digit++, mask >>>= 1) {
+    if (mask & 1) digits.push(digit);
+  }
+  return digits;
+};
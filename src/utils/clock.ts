@@ -0,0 +1,12 @@
+import { GameClock } from '@/types/sudoku';
+
+export const createClock = (now = Date.now()): GameClock => ({ elapsedMs: 0, runningSince: now });
+
+export const readClock = (clock: GameClock, now = Date.now()): number =>
+  clock.elapsedMs + (clock.runningSince === null ? 0 : now - clock.runningSince);
+
+export const pauseClock = (clock: GameClock, now = Date.now()): GameClock =>
+  clock.runningSince === null ? clock : { elapsedMs: readClock(clock, now), runningSince: null };
+
+export const resumeClock = (clock: GameClock, now = Date.now()): GameClock =>
+  clock.runningSince === null ? { ...clock, runningSince: now } : clock;
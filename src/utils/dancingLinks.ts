@@ -0,0 +1,209 @@
+import { SudokuGrid, GridConfig } from '@/types/sudoku';
+
+/**
+ * Sudoku as an exact cover problem (Knuth's Algorithm X with Dancing Links).
+ *
+ * Columns are the constraints the givens leave open - each empty cell gets a
+ * value, each digit appears once per row, column and box. Every candidate
+ * placement that doesn't clash with a given is a matrix row covering four of
+ * them. Links live in flat typed arrays: index 0 is the root, 1..n the column
+ * headers, and the remaining indices the row nodes.
+ */
+class ExactCoverMatrix {
+  private readonly left: Int32Array;
+  private readonly right: Int32Array;
+  private readonly up: Int32Array;
+  private readonly down: Int32Array;
+  private readonly column: Int32Array;
+  private readonly columnSize: Int32Array;
+  // Placement (cell * size + digit - 1) each row node stands for
+  private readonly placement: Int32Array;
+  private readonly partial: number[] = [];
+  private hasConflict = false;
+  firstSolution: number[] | null = null;
+
+  constructor(grid: SudokuGrid, gridConfig: GridConfig) {
+    const { size, subGridRows, subGridCols } = gridConfig;
+    const area = size * size;
+    const boxesPerRow = size / subGridCols;
+    const boxOf = (row: number, col: number) =>
+      Math.floor(row / subGridRows) * boxesPerRow + Math.floor(col / subGridCols);
+
+    // Constraint ids: cell, then digit-in-row, digit-in-column, digit-in-box
+    const constraintsOf = (row: number, col: number, digit: number) => [
+      row * size + col,
+      area + row * size + digit - 1,
+      2 * area + col * size + digit - 1,
+      3 * area + boxOf(row, col) * size + digit - 1,
+    ];
+
+    const satisfied = new Uint8Array(4 * area);
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const value = grid[row][col];
+        if (value === null) continue;
+
+        constraintsOf(row, col, value).forEach(id => {
+          // Two givens covering the same constraint clash
+          if (satisfied[id]) this.hasConflict = true;
+          satisfied[id] = 1;
+        });
+      }
+    }
+
+    const headerOf = new Int32Array(4 * area).fill(-1);
+    let headerCount = 0;
+    satisfied.forEach((isSatisfied, id) => {
+      if (!isSatisfied) headerOf[id] = ++headerCount;
+    });
+
+    const capacity = 1 + headerCount + 4 * area * size;
+    this.left = new Int32Array(capacity);
+    this.right = new Int32Array(capacity);
+    this.up = new Int32Array(capacity);
+    this.down = new Int32Array(capacity);
+    this.column = new Int32Array(capacity);
+    this.columnSize = new Int32Array(headerCount + 1);
+    this.placement = new Int32Array(capacity);
+
+    // Root and column headers form one circular list
+    for (let header = 0; header <= headerCount; header++) {
+      this.left[header] = header === 0 ? headerCount : header - 1;
+      this.right[header] = header === headerCount ? 0 : header + 1;
+      this.up[header] = header;
+      this.down[header] = header;
+      this.column[header] = header;
+    }
+
+    let next = headerCount + 1;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (grid[row][col] !== null) continue;
+
+        for (let digit = 1; digit <= size; digit++) {
+          const constraints = constraintsOf(row, col, digit);
+          if (constraints.some(id => satisfied[id])) continue;
+
+          const first = next;
+          constraints.forEach((id, i) => {
+            const node = next++;
+            const header = headerOf[id];
+            this.column[node] = header;
+            this.placement[node] = (row * size + col) * size + digit - 1;
+            // Append to the bottom of the column
+            this.up[node] = this.up[header];
+            this.down[node] = header;
+            this.down[this.up[header]] = node;
+            this.up[header] = node;
+            this.columnSize[header]++;
+            // Link into the row
+            this.left[node] = i === 0 ? node : node - 1;
+            this.right[node] = first;
+            this.right[this.left[node]] = node;
+            this.left[first] = node;
+          });
+        }
+      }
+    }
+  }
+
+  private cover(header: number): void {
+    const { left, right, up, down, column, columnSize } = this;
+    right[left[header]] = right[header];
+    left[right[header]] = left[header];
+    for (let i = down[header]; i !== header; i = down[i]) {
+      for (let j = right[i]; j !== i; j = right[j]) {
+        down[up[j]] = down[j];
+        up[down[j]] = up[j];
+        columnSize[column[j]]--;
+      }
+    }
+  }
+
+  private uncover(header: number): void {
+    const { left, right, up, down, column, columnSize } = this;
+    for (let i = up[header]; i !== header; i = up[i]) {
+      for (let j = left[i]; j !== i; j = left[j]) {
+        columnSize[column[j]]++;
+        down[up[j]] = j;
+        up[down[j]] = j;
+      }
+    }
+    right[left[header]] = header;
+    left[right[header]] = header;
+  }
+
+  /**
+   * Count exact covers up to `maxCount`, keeping the first one found.
+   * Every search node costs one step of the budget.
+   */
+  search(maxCount: number, budget: { steps: number }): number {
+    if (this.hasConflict) return 0;
+    if (--budget.steps < 0) return 0; // Out of budget - give up
+
+    const { right, down, columnSize } = this;
+    if (right[0] === 0) {
+      if (!this.firstSolution) this.firstSolution = [...this.partial];
+      return 1;
+    }
+
+    // Most constrained column first
+    let header = right[0];
+    for (let candidate = right[header]; candidate !== 0; candidate = right[candidate]) {
+      if (columnSize[candidate] < columnSize[header]) header = candidate;
+    }
+    if (columnSize[header] === 0) return 0; // Dead end
+
+    this.cover(header);
+    let count = 0;
+
+    for (let node = down[header]; node !== header; node = down[node]) {
+      this.partial.push(this.placement[node]);
+      for (let j = right[node]; j !== node; j = right[j]) this.cover(this.column[j]);
+
+      count += this.search(maxCount - count, budget);
+
+      for (let j = this.left[node]; j !== node; j = this.left[j]) this.uncover(this.column[j]);
+      this.partial.pop();
+
+      if (count >= maxCount || budget.steps < 0) break; // Early termination
+    }
+
+    this.uncover(header);
+    return count;
+  }
+}
+
+/**
+ * Exact cover solver used for large grids, where cell-by-cell backtracking
+ * spends most of its time rescanning rows, columns and boxes.
+ */
+export class DancingLinks {
+  /**
+   * Fill the grid in place with the first solution found
+   */
+  static solve(grid: SudokuGrid, gridConfig: GridConfig): boolean {
+    const matrix = new ExactCoverMatrix(grid, gridConfig);
+    if (matrix.search(1, { steps: Infinity }) === 0 || !matrix.firstSolution) return false;
+
+    const { size } = gridConfig;
+    matrix.firstSolution.forEach(placement => {
+      const cell = Math.floor(placement / size);
+      grid[Math.floor(cell / size)][cell % size] = (placement % size) + 1;
+    });
+    return true;
+  }
+
+  /**
+   * Count solutions up to `limit` without touching the grid.
+   * The search stops early once `budget.steps` runs out.
+   */
+  static countSolutions(
+    grid: SudokuGrid,
+    gridConfig: GridConfig,
+    limit = 2,
+    budget: { steps: number } = { steps: Infinity }
+  ): number {
+    return new ExactCoverMatrix(grid, gridConfig).search(limit, budget);
+  }
+}
@@ -0,0 +1,104 @@
+import { GameState, SavedGameSummary } from '@/types/sudoku';
+import { deserializeGame, serializeGame } from './savedGame';
+import { SudokuSolver } from './sudokuSolver';
+import { createGameId } from './random';
+import { readClock } from './clock';
+
+const DATABASE_NAME = 'sudokuz';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'games';
+
+// Summary fields sit next to the serialized game so listing doesn't parse every game
+interface LibraryRecord extends SavedGameSummary {
+  game: string;
+}
+
+export const summarizeGame = (state: GameState, now = Date.now()): SavedGameSummary => ({
+  id: state.id,
+  gridConfig: state.gridConfig,
+  difficulty: state.difficulty,
+  progress: SudokuSolver.getProgress(state.grid),
+  elapsedMs: readClock(state.clock, now),
+  lastPlayed: now,
+});
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Games in progress, one IndexedDB record per game. Where IndexedDB is
+ * missing (server render, some private modes) the library is simply empty.
+ */
+export class GameLibrary {
+  private static database: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.database = settle(request).catch(error => {
+        this.database = null; // Let the next call try again
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private static async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * Saved games, most recently played first
+   */
+  static async list(): Promise<SavedGameSummary[]> {
+    if (!this.isAvailable()) return [];
+
+    const records: LibraryRecord[] = await settle((await this.store('readonly')).getAll());
+    return records
+      .map(({ game: _game, ...summary }) => summary)
+      .sort((a, b) => b.lastPlayed - a.lastPlayed);
+  }
+
+  static async save(state: GameState): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const now = Date.now();
+    const record: LibraryRecord = { ...summarizeGame(state, now), game: serializeGame(state, now) };
+    await settle((await this.store('readwrite')).put(record));
+  }
+
+  static async load(id: string): Promise<GameState | null> {
+    if (!this.isAvailable()) return null;
+
+    const record: LibraryRecord | undefined = await settle((await this.store('readonly')).get(id));
+    return record ? deserializeGame(record.game) : null;
+  }
+
+  /**
+   * Copy a saved game into a new slot, returning the copy's id
+   */
+  static async duplicate(id: string): Promise<string | null> {
+    const game = await this.load(id);
+    if (!game) return null;
+
+    const copy = { ...game, id: createGameId() };
+    await this.save(copy);
+    return copy.id;
+  }
+
+  static async remove(id: string): Promise<void> {
+    if (!this.isAvailable()) return;
+    await settle((await this.store('readwrite')).delete(id));
+  }
+}
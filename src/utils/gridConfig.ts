@@ -1,62 +1,91 @@
-import { Difficulty, GridConfig } from '@/types/sudoku';
-
-export const getGridConfig = (difficulty: Difficulty): GridConfig => {
-  switch (difficulty) {
-    case 'easy':
-      return {
-        size: 4,
-        subGridRows: 2,
-        subGridCols: 2,
-        maxNumber: 4,
-      };
-    case 'medium':
-      return {
-        size: 6,
-        subGridRows: 2,
-        subGridCols: 3,
-        maxNumber: 6,
-      };
-    case 'hard':
-      return {
-        size: 16,
-        subGridRows: 4,
-        subGridCols: 4,
-        maxNumber: 16,
-      };
-    default:
-      return {
-        size: 6,
-        subGridRows: 2,
-        subGridCols: 3,
-        maxNumber: 6,
-      };
-  }
+import { CellPosition, Difficulty, GridConfig, GridSize, SudokuUnit } from '@/types/sudoku';
+
+/**
+ * Supported grid sizes and their box shapes (rows × columns per box).
+ * Everything else - cell sizing, number pad, generation - derives from these.
+ */
+const GRID_CONFIGS: Record<GridSize, GridConfig> = {
+  4: { size: 4, subGridRows: 2, subGridCols: 2, maxNumber: 4 },
+  6: { size: 6, subGridRows: 2, subGridCols: 3, maxNumber: 6 },
+  8: { size: 8, subGridRows: 2, subGridCols: 4, maxNumber: 8 },
+  9: { size: 9, subGridRows: 3, subGridCols: 3, maxNumber: 9 },
+  10: { size: 10, subGridRows: 2, subGridCols: 5, maxNumber: 10 },
+  12: { size: 12, subGridRows: 3, subGridCols: 4, maxNumber: 12 },
+  16: { size: 16, subGridRows: 4, subGridCols: 4, maxNumber: 16 },
+  25: { size: 25, subGridRows: 5, subGridCols: 5, maxNumber: 25 },
+};
+
+export const GRID_SIZES: GridSize[] = [4, 6, 8, 9, 10, 12, 16, 25];
+
+export const DEFAULT_GRID_SIZE: GridSize = 6;
+
+export const DIFFICULTIES: Difficulty[] = ['beginner', 'easy', 'medium', 'hard', 'expert'];
+
+/**
+ * Single source of truth for difficulty levels.
+ * `removalRatio` is the share of cells emptied, independent of grid size.
+ */
+const DIFFICULTY_LEVELS: Record<Difficulty, { name: string; removalRatio: number; color: string }> = {
+  beginner: { name: 'Beginner', removalRatio: 0.3, color: 'from-teal-500 to-teal-600' },
+  easy: { name: 'Easy', removalRatio: 0.4, color: 'from-green-500 to-green-600' },
+  medium: { name: 'Medium', removalRatio: 0.5, color: 'from-yellow-500 to-yellow-600' },
+  hard: { name: 'Hard', removalRatio: 0.6, color: 'from-red-500 to-red-600' },
+  expert: { name: 'Expert', removalRatio: 0.7, color: 'from-purple-500 to-purple-600' },
+};
+
+export const getGridConfig = (size: GridSize): GridConfig => {
+  // Hand out a copy so callers can't modify the registry
+  return { ...(GRID_CONFIGS[size] || GRID_CONFIGS[DEFAULT_GRID_SIZE]) };
+};
+
+export const isGridSize = (size: number): size is GridSize => size in GRID_CONFIGS;
+
+export const getGridSizeLabel = (gridConfig: GridConfig): string =>
+  `${gridConfig.size}×${gridConfig.size}`;
+
+/**
+ * Box a cell belongs to, numbered like getUnitCells
+ */
+export const getBoxIndex = (row: number, col: number, gridConfig: GridConfig): number => {
+  const { size, subGridRows, subGridCols } = gridConfig;
+  return Math.floor(row / subGridRows) * (size / subGridCols) + Math.floor(col / subGridCols);
 };
 
-export const getDifficultySettings = (difficulty: Difficulty) => {
-  const config = getGridConfig(difficulty);
-  const totalCells = config.size * config.size;
-  
-  switch (difficulty) {
-    case 'easy':
-      return { 
-        cellsToRemove: Math.floor(totalCells * 0.4), // 40% removed for 4x4
-        name: '4×4 Easy' 
-      };
-    case 'medium':
-      return { 
-        cellsToRemove: Math.floor(totalCells * 0.5), // 50% removed for 6x6
-        name: '6×6 Medium' 
-      };
-    case 'hard':
-      return { 
-        cellsToRemove: Math.floor(totalCells * 0.7), // 70% removed for 16x16
-        name: '16×16 Hard' 
-      };
-    default:
-      return { 
-        cellsToRemove: Math.floor(totalCells * 0.5), 
-        name: '6×6 Medium' 
-      };
-  }
+/**
+ * All cells of a row, column or box. Boxes are numbered left to right, top to bottom.
+ */
+export const getUnitCells = ({ type, index }: SudokuUnit, gridConfig: GridConfig): CellPosition[] => {
+  const { size, subGridRows, subGridCols } = gridConfig;
+
+  if (type === 'row') return Array.from({ length: size }, (_, col) => ({ row: index, col }));
+  if (type === 'col') return Array.from({ length: size }, (_, row) => ({ row, col: index }));
+
+  const boxesPerRow = size / subGridCols;
+  const startRow = Math.floor(index / boxesPerRow) * subGridRows;
+  const startCol = (index % boxesPerRow) * subGridCols;
+  return Array.from({ length: size }, (_, i) => ({
+    row: startRow + Math.floor(i / subGridCols),
+    col: startCol + (i % subGridCols),
+  }));
+};
+
+/**
+ * Cells of the row, column and box through (row, col), the cell itself
+ * included. Cells in both the box and the row or column are listed twice.
+ */
+export const getPeerCells = (row: number, col: number, gridConfig: GridConfig): CellPosition[] => [
+  ...getUnitCells({ type: 'row', index: row }, gridConfig),
+  ...getUnitCells({ type: 'col', index: col }, gridConfig),
+  ...getUnitCells({ type: 'box', index: getBoxIndex(row, col, gridConfig) }, gridConfig),
+];
+
+export const getDifficultySettings = (difficulty: Difficulty, gridConfig: GridConfig) => {
+  const level = DIFFICULTY_LEVELS[difficulty] || DIFFICULTY_LEVELS.medium;
+  const totalCells = gridConfig.size * gridConfig.size;
+
+  return {
+    name: level.name,
+    cellsToRemove: Math.floor(totalCells * level.removalRatio),
+    color: level.color,
+  };
 };
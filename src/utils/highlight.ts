@@ -0,0 +1,34 @@
+import { CellHighlights, CellPosition, GridConfig, PencilMarks, SudokuGrid } from '@/types/sudoku';
+import { digitBit } from './bitmask';
+import { getPeerCells } from './gridConfig';
+
+/**
+ * What to light up for the selected cell: its peers, and wherever its digit
+ * already stands or is pencilled in. Nothing without a selection.
+ */
+export const getCellHighlights = (
+  grid: SudokuGrid,
+  marks: PencilMarks,
+  selected: CellPosition | undefined,
+  gridConfig: GridConfig
+): CellHighlights => {
+  const highlights: CellHighlights = { peers: new Set(), digit: null, sameDigit: new Set(), candidates: new Set() };
+  if (!selected) return highlights;
+
+  const { row, col } = selected;
+  getPeerCells(row, col, gridConfig).forEach(cell => highlights.peers.add(`${cell.row}-${cell.col}`));
+  highlights.peers.delete(`${row}-${col}`);
+
+  const digit = grid[row][col];
+  if (digit === null) return highlights;
+
+  highlights.digit = digit;
+  const bit = digitBit(digit);
+  grid.forEach((cells, r) => cells.forEach((value, c) => {
+    if (r === row && c === col) return;
+    if (value === digit) highlights.sameDigit.add(`${r}-${c}`);
+    else if (value === null && (marks.centre[r][c] | marks.corner[r][c]) & bit) highlights.candidates.add(`${r}-${c}`);
+  }));
+
+  return highlights;
+};
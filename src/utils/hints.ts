@@ -0,0 +1,37 @@
+import { CellPosition, GridConfig, Hint, SudokuGrid } from '@/types/sudoku';
+import { getBoxIndex, getUnitCells } from './gridConfig';
+import { LogicalSolver } from './logicalSolver';
+import { SudokuSolver } from './sudokuSolver';
+
+/**
+ * Next logical deduction for the player's grid. Entries that disagree with the
+ * solution are ignored so a mistake can't lead the solver astray.
+ */
+export const findHint = (grid: SudokuGrid, solution: SudokuGrid, gridConfig: GridConfig): Hint | null => {
+  const correctGrid: SudokuGrid = grid.map((r, row) =>
+    r.map((cell, col) => (cell === solution[row][col] ? cell : null))
+  );
+
+  const hint = LogicalSolver.getHint(correctGrid, gridConfig);
+  if (hint) return hint;
+
+  // Beyond known techniques: fall back to the most constrained cell
+  const cell = SudokuSolver.getHint(correctGrid, solution, gridConfig);
+  if (!cell) return null;
+
+  const value = solution[cell.row][cell.col] as number;
+  return {
+    technique: null,
+    descriptions: [`No known technique applies here, but r${cell.row + 1}c${cell.col + 1} must be ${value}`],
+    cells: [cell],
+    unit: { type: 'box', index: getBoxIndex(cell.row, cell.col, gridConfig) },
+    placement: { ...cell, value },
+  };
+};
+
+/**
+ * Cells highlighted from the first hint level: the whole unit, never just the
+ * cells behind the deduction, which would give the target away
+ */
+export const getHintRegion = (hint: Hint, gridConfig: GridConfig): CellPosition[] =>
+  getUnitCells(hint.unit, gridConfig);
@@ -0,0 +1,66 @@
+import { CellChange, CellContents, MoveHistory, PencilMarks, SudokuGrid } from '@/types/sudoku';
+
+// Oldest moves are dropped beyond this, keeping saved games small
+export const MAX_HISTORY_LENGTH = 500;
+
+export interface Board {
+  grid: SudokuGrid;
+  marks: PencilMarks;
+}
+
+export const createHistory = (): MoveHistory => ({ past: [], future: [] });
+
+const contentsAt = ({ grid, marks }: Board, row: number, col: number): CellContents => ({
+  value: grid[row][col],
+  centre: marks.centre[row][col],
+  corner: marks.corner[row][col],
+});
+
+/**
+ * Every cell whose value or marks differ between two boards
+ */
+export const diffBoards = (before: Board, after: Board): CellChange[] => {
+  const changes: CellChange[] = [];
+
+  before.grid.forEach((cells, row) => cells.forEach((_, col) => {
+    const from = contentsAt(before, row, col);
+    const to = contentsAt(after, row, col);
+    if (from.value !== to.value || from.centre !== to.centre || from.corner !== to.corner) {
+      changes.push({ row, col, before: from, after: to });
+    }
+  }));
+
+  return changes;
+};
+
+/**
+ * Add the move from `before` to `after` to the history. Board changes that
+ * made no difference are not recorded, and a new move drops the redo stack.
+ */
+export const recordMove = (history: MoveHistory, before: Board, after: Board): MoveHistory => {
+  const changes = diffBoards(before, after);
+  if (changes.length === 0) return history;
+
+  return {
+    past: [...history.past, changes].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+  };
+};
+
+/**
+ * Copy of the board with one side of a move written into its cells
+ */
+export const applyChanges = (board: Board, changes: CellChange[], side: 'before' | 'after'): Board => {
+  const grid = board.grid.map(cells => [...cells]);
+  const centre = board.marks.centre.map(cells => [...cells]);
+  const corner = board.marks.corner.map(cells => [...cells]);
+
+  changes.forEach(change => {
+    const { row, col } = change;
+    grid[row][col] = change[side].value;
+    centre[row][col] = change[side].centre;
+    corner[row][col] = change[side].corner;
+  });
+
+  return { grid, marks: { centre, corner } };
+};
@@ -0,0 +1,72 @@
+import { CellPosition } from '@/types/sudoku';
+
+// How long a digit that could start a two-digit value waits for the second one
+export const DIGIT_BUFFER_MS = 800;
+
+export interface DigitInput {
+  // Value to enter now, if the typing so far settles one
+  value: number | null;
+  // Digits still waiting for more, '' when none
+  buffer: string;
+}
+
+/**
+ * Value of a letter key on grids above 9: A = 10, B = 11 and so on, like hex
+ * but running on to P for 25×25. Anything else gives null.
+ */
+export const getLetterValue = (key: string, maxNumber: number): number | null => {
+  if (!/^[a-z]$/i.test(key)) return null;
+  const value = key.toUpperCase().charCodeAt(0) - 'A'.charCodeAt(0) + 10;
+  return value <= maxNumber ? value : null;
+};
+
+/**
+ * Add a typed digit to what is already buffered. A digit that could still be
+ * the first of a two-digit value is held back; the caller enters it on
+ * timeout or Enter. A digit that doesn't fit after the buffered one starts over.
+ * A lone 0 means 10, as it always has.
+ */
+export const pushDigit = (buffer: string, digit: string, maxNumber: number): DigitInput => {
+  const typed = buffer + digit;
+  const value = Number(typed);
+
+  if (value === 0) return { value: maxNumber >= 10 ? 10 : null, buffer: '' };
+  if (value > maxNumber) return buffer ? pushDigit('', digit, maxNumber) : { value: null, buffer: '' };
+  if (typed.length < 2 && value * 10 <= maxNumber) return { value: null, buffer: typed };
+  return { value, buffer: '' };
+};
+
+/**
+ * Cell a navigation key moves to, or null for other keys. Arrows wrap around
+ * at the edges; Home/End go to the ends of the row (with Ctrl, of the grid)
+ * and PageUp/PageDown to the ends of the column.
+ */
+export const getNavigationTarget = (
+  { row, col }: CellPosition,
+  key: string,
+  size: number,
+  ctrlKey = false
+): CellPosition | null => {
+  const last = size - 1;
+
+  switch (key) {
+    case 'ArrowUp':
+      return { row: (row + last) % size, col };
+    case 'ArrowDown':
+      return { row: (row + 1) % size, col };
+    case 'ArrowLeft':
+      return { row, col: (col + last) % size };
+    case 'ArrowRight':
+      return { row, col: (col + 1) % size };
+    case 'Home':
+      return ctrlKey ? { row: 0, col: 0 } : { row, col: 0 };
+    case 'End':
+      return ctrlKey ? { row: last, col: last } : { row, col: last };
+    case 'PageUp':
+      return { row: 0, col };
+    case 'PageDown':
+      return { row: last, col };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,694 @@
+import {
+  SudokuGrid,
+  GridConfig,
+  CellPosition,
+  CellDigit,
+  Difficulty,
+  SudokuUnit,
+  SolvingTechnique,
+  LogicalStep,
+  PuzzleGrade,
+  Hint,
+} from '@/types/sudoku';
+import { allDigits, digitBit, maskToDigits, popcount } from './bitmask';
+
+interface TechniqueInfo {
+  technique: SolvingTechnique;
+  name: string;
+  weight: number;
+  difficulty: Difficulty;
+}
+
+/**
+ * Techniques in the order a human would reach for them.
+ * `weight` feeds the numeric score, `difficulty` the grade of a puzzle
+ * whose hardest required technique is this one.
+ */
+export const TECHNIQUES: TechniqueInfo[] = [
+  { technique: 'hidden-single', name: 'Hidden single', weight: 1, difficulty: 'beginner' },
+  { technique: 'naked-single', name: 'Naked single', weight: 2, difficulty: 'easy' },
+  { technique: 'pointing-pair', name: 'Pointing pair', weight: 5, difficulty: 'medium' },
+  { technique: 'box-line-reduction', name: 'Box/line reduction', weight: 5, difficulty: 'medium' },
+  { technique: 'naked-pair', name: 'Naked pair', weight: 6, difficulty: 'medium' },
+  { technique: 'hidden-pair', name: 'Hidden pair', weight: 7, difficulty: 'medium' },
+  { technique: 'naked-triple', name: 'Naked triple', weight: 9, difficulty: 'hard' },
+  { technique: 'hidden-triple', name: 'Hidden triple', weight: 10, difficulty: 'hard' },
+  { technique: 'x-wing', name: 'X-Wing', weight: 12, difficulty: 'hard' },
+  { technique: 'swordfish', name: 'Swordfish', weight: 16, difficulty: 'expert' },
+  { technique: 'xy-wing', name: 'XY-Wing', weight: 16, difficulty: 'expert' },
+  { technique: 'simple-coloring', name: 'Simple coloring', weight: 18, difficulty: 'expert' },
+];
+
+// Weight charged when logic runs out and the puzzle needs guessing
+const GUESSING_WEIGHT = 20;
+
+const techniqueInfo = (technique: SolvingTechnique): TechniqueInfo =>
+  TECHNIQUES.find(info => info.technique === technique)!;
+
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - k; i++) {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rows, columns and boxes of a grid as lists of flat cell indices
+ */
+interface UnitLayout {
+  size: number;
+  units: number[][];
+  unitRefs: SudokuUnit[];
+  // [row unit, column unit, box unit] for each cell
+  cellUnits: number[][];
+  peers: number[][];
+}
+
+const buildLayout = (gridConfig: GridConfig): UnitLayout => {
+  const { size, subGridRows, subGridCols } = gridConfig;
+  const boxesPerRow = size / subGridCols;
+  const units: number[][] = [];
+  const unitRefs: SudokuUnit[] = [];
+
+  for (let row = 0; row < size; row++) {
+    units.push(Array.from({ length: size }, (_, col) => row * size + col));
+    unitRefs.push({ type: 'row', index: row });
+  }
+  for (let col = 0; col < size; col++) {
+    units.push(Array.from({ length: size }, (_, row) => row * size + col));
+    unitRefs.push({ type: 'col', index: col });
+  }
+  for (let box = 0; box < size; box++) {
+    const startRow = Math.floor(box / boxesPerRow) * subGridRows;
+    const startCol = (box % boxesPerRow) * subGridCols;
+    const cells: number[] = [];
+    for (let r = 0; r < subGridRows; r++) {
+      for (let c = 0; c < subGridCols; c++) {
+        cells.push((startRow + r) * size + startCol + c);
+      }
+    }
+    units.push(cells);
+    unitRefs.push({ type: 'box', index: box });
+  }
+
+  const cellUnits = Array.from({ length: size * size }, (_, cell) => {
+    const row = Math.floor(cell / size);
+    const col = cell % size;
+    const box = Math.floor(row / subGridRows) * boxesPerRow + Math.floor(col / subGridCols);
+    return [row, size + col, 2 * size + box];
+  });
+
+  const peers = cellUnits.map((unitIndices, cell) => {
+    const cellPeers = new Set<number>();
+    unitIndices.forEach(u => units[u].forEach(peer => cellPeers.add(peer)));
+    cellPeers.delete(cell);
+    return Array.from(cellPeers);
+  });
+
+  return { size, units, unitRefs, cellUnits, peers };
+};
+
+/**
+ * Working state of the logical solver: placed values plus candidates
+ */
+class CandidateBoard {
+  readonly layout: UnitLayout;
+  readonly values: number[];
+  readonly candidates: number[];
+
+  constructor(grid: SudokuGrid, gridConfig: GridConfig) {
+    this.layout = buildLayout(gridConfig);
+    const { size } = this.layout;
+    const everyDigit = allDigits(gridConfig.maxNumber);
+
+    this.values = grid.flat().map(value => value ?? 0);
+    this.candidates = this.values.map(value => (value ? 0 : everyDigit));
+
+    for (let cell = 0; cell < size * size; cell++) {
+      if (this.values[cell]) this.removeFromPeers(cell, this.values[cell]);
+    }
+  }
+
+  get size() {
+    return this.layout.size;
+  }
+
+  position(cell: number): CellPosition {
+    return { row: Math.floor(cell / this.size), col: cell % this.size };
+  }
+
+  cellDigit(cell: number, value: number): CellDigit {
+    return { ...this.position(cell), value };
+  }
+
+  sees(a: number, b: number): boolean {
+    const unitsA = this.layout.cellUnits[a];
+    const unitsB = this.layout.cellUnits[b];
+    return a !== b && (unitsA[0] === unitsB[0] || unitsA[1] === unitsB[1] || unitsA[2] === unitsB[2]);
+  }
+
+  place(cell: number, value: number): void {
+    this.values[cell] = value;
+    this.candidates[cell] = 0;
+    this.removeFromPeers(cell, value);
+  }
+
+  apply(step: LogicalStep): void {
+    step.placements.forEach(({ row, col, value }) => this.place(row * this.size + col, value));
+    step.eliminations.forEach(({ row, col, value }) => {
+      this.candidates[row * this.size + col] &= ~digitBit(value);
+    });
+  }
+
+  isSolved(): boolean {
+    return this.values.every(value => value !== 0);
+  }
+
+  /**
+   * True when an empty cell has no candidates or a digit has no place left in a unit
+   */
+  hasContradiction(): boolean {
+    const { units, size } = this.layout;
+    if (this.values.some((value, cell) => !value && !this.candidates[cell])) return true;
+
+    return units.some(unit => {
+      let covered = 0;
+      unit.forEach(cell => {
+        covered |= this.values[cell] ? digitBit(this.values[cell]) : this.candidates[cell];
+      });
+      return covered !== allDigits(size);
+    });
+  }
+
+  toGrid(): SudokuGrid {
+    return Array.from({ length: this.size }, (_, row) =>
+      this.values.slice(row * this.size, (row + 1) * this.size).map(value => value || null)
+    );
+  }
+
+  private removeFromPeers(cell: number, value: number): void {
+    const bit = digitBit(value);
+    this.layout.peers[cell].forEach(peer => {
+      this.candidates[peer] &= ~bit;
+    });
+  }
+}
+
+// Cells of a unit that still have `digit` as a candidate
+const cellsWithDigit = (board: CandidateBoard, unit: number[], digit: number) =>
+  unit.filter(cell => board.candidates[cell] & digitBit(digit));
+
+const eliminationsFor = (board: CandidateBoard, cells: number[], mask: number): CellDigit[] =>
+  cells.flatMap(cell => maskToDigits(board.candidates[cell] & mask).map(value => board.cellDigit(cell, value)));
+
+const findHiddenSingle = (board: CandidateBoard): LogicalStep | null => {
+  const { units, unitRefs } = board.layout;
+
+  for (let u = 0; u < units.length; u++) {
+    for (let digit = 1; digit <= board.size; digit++) {
+      const cells = cellsWithDigit(board, units[u], digit);
+      if (cells.length === 1) {
+        return {
+          technique: 'hidden-single',
+          placements: [board.cellDigit(cells[0], digit)],
+          eliminations: [],
+          cells: [board.position(cells[0])],
+          digits: [digit],
+          unit: unitRefs[u],
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+const findNakedSingle = (board: CandidateBoard): LogicalStep | null => {
+  const cell = board.candidates.findIndex(mask => popcount(mask) === 1);
+  if (cell === -1) return null;
+
+  const digit = maskToDigits(board.candidates[cell])[0];
+  return {
+    technique: 'naked-single',
+    placements: [board.cellDigit(cell, digit)],
+    eliminations: [],
+    cells: [board.position(cell)],
+    digits: [digit],
+  };
+};
+
+/**
+ * Pointing pairs: a digit confined to one line inside a box leaves the rest of that line.
+ * Box/line reduction: a digit confined to one box inside a line leaves the rest of that box.
+ */
+const findIntersection = (board: CandidateBoard, technique: 'pointing-pair' | 'box-line-reduction'): LogicalStep | null => {
+  const { units, unitRefs, cellUnits, size } = board.layout;
+  const [first, last] = technique === 'pointing-pair' ? [2 * size, 3 * size] : [0, 2 * size];
+
+  for (let u = first; u < last; u++) {
+    for (let digit = 1; digit <= size; digit++) {
+      const cells = cellsWithDigit(board, units[u], digit);
+      if (cells.length < 2) continue;
+
+      // Unit kinds the cells could share: row/column for boxes, box for lines
+      const kinds = technique === 'pointing-pair' ? [0, 1] : [2];
+      for (const kind of kinds) {
+        const target = cellUnits[cells[0]][kind];
+        if (!cells.every(cell => cellUnits[cell][kind] === target)) continue;
+
+        const others = units[target].filter(cell => !units[u].includes(cell));
+        const eliminations = eliminationsFor(board, others, digitBit(digit));
+        if (eliminations.length > 0) {
+          return {
+            technique,
+            placements: [],
+            eliminations,
+            cells: cells.map(cell => board.position(cell)),
+            digits: [digit],
+            unit: unitRefs[u],
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Naked subsets: k cells of a unit holding only k digits between them
+ */
+const findNakedSubset = (board: CandidateBoard, k: 2 | 3): LogicalStep | null => {
+  const { units, unitRefs } = board.layout;
+
+  for (let u = 0; u < units.length; u++) {
+    const open = units[u].filter(cell => {
+      const count = popcount(board.candidates[cell]);
+      return count >= 2 && count <= k;
+    });
+
+    for (const subset of combinations(open, k)) {
+      const mask = subset.reduce((acc, cell) => acc | board.candidates[cell], 0);
+      if (popcount(mask) !== k) continue;
+
+      const others = units[u].filter(cell => !subset.includes(cell));
+      const eliminations = eliminationsFor(board, others, mask);
+      if (eliminations.length > 0) {
+        return {
+          technique: k === 2 ? 'naked-pair' : 'naked-triple',
+          placements: [],
+          eliminations,
+          cells: subset.map(cell => board.position(cell)),
+          digits: maskToDigits(mask),
+          unit: unitRefs[u],
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Hidden subsets: k digits of a unit that fit only in the same k cells
+ */
+const findHiddenSubset = (board: CandidateBoard, k: 2 | 3): LogicalStep | null => {
+  const { units, unitRefs, size } = board.layout;
+
+  for (let u = 0; u < units.length; u++) {
+    const digits = Array.from({ length: size }, (_, i) => i + 1).filter(digit => {
+      const count = cellsWithDigit(board, units[u], digit).length;
+      return count >= 2 && count <= k;
+    });
+
+    for (const subset of combinations(digits, k)) {
+      const cells = Array.from(new Set(subset.flatMap(digit => cellsWithDigit(board, units[u], digit))));
+      if (cells.length !== k) continue;
+
+      const keep = subset.reduce((acc, digit) => acc | digitBit(digit), 0);
+      const eliminations = eliminationsFor(board, cells, ~keep);
+      if (eliminations.length > 0) {
+        return {
+          technique: k === 2 ? 'hidden-pair' : 'hidden-triple',
+          placements: [],
+          eliminations,
+          cells: cells.map(cell => board.position(cell)),
+          digits: subset,
+          unit: unitRefs[u],
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Basic fish: a digit confined to the same k columns in k rows (or vice versa)
+ * can be removed from those columns everywhere else. k = 2 is X-Wing, k = 3 Swordfish.
+ */
+const findFish = (board: CandidateBoard, k: 2 | 3): LogicalStep | null => {
+  const { units, size } = board.layout;
+
+  for (let digit = 1; digit <= size; digit++) {
+    // Base lines are rows (cover columns) or columns (cover rows)
+    for (const baseOffset of [0, size]) {
+      const coverOffset = baseOffset === 0 ? size : 0;
+      const crossIndex = (cell: number) => (baseOffset === 0 ? cell % size : Math.floor(cell / size));
+
+      const bases = Array.from({ length: size }, (_, i) => baseOffset + i).filter(u => {
+        const count = cellsWithDigit(board, units[u], digit).length;
+        return count >= 2 && count <= k;
+      });
+
+      for (const baseSet of combinations(bases, k)) {
+        const baseCells = baseSet.flatMap(u => cellsWithDigit(board, units[u], digit));
+        const covers = Array.from(new Set(baseCells.map(crossIndex)));
+        if (covers.length !== k) continue;
+
+        const others = covers.flatMap(cover =>
+          units[coverOffset + cover].filter(cell => !baseCells.includes(cell))
+        );
+        const eliminations = eliminationsFor(board, others, digitBit(digit));
+        if (eliminations.length > 0) {
+          return {
+            technique: k === 2 ? 'x-wing' : 'swordfish',
+            placements: [],
+            eliminations,
+            cells: baseCells.map(cell => board.position(cell)),
+            digits: [digit],
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * XY-Wing: pivot {x,y} sees pincers {x,z} and {y,z}; any cell seeing both pincers can't be z
+ */
+const findXYWing = (board: CandidateBoard): LogicalStep | null => {
+  const { peers } = board.layout;
+  const cellCount = board.size * board.size;
+
+  for (let pivot = 0; pivot < cellCount; pivot++) {
+    const pivotMask = board.candidates[pivot];
+    if (popcount(pivotMask) !== 2) continue;
+
+    const pincers = peers[pivot].filter(cell => {
+      const mask = board.candidates[cell];
+      return popcount(mask) === 2 && popcount(mask & pivotMask) === 1;
+    });
+
+    for (const [a, b] of combinations(pincers, 2)) {
+      const maskA = board.candidates[a];
+      const maskB = board.candidates[b];
+      const z = maskA & ~pivotMask;
+      if (z !== (maskB & ~pivotMask) || (maskA & pivotMask) === (maskB & pivotMask)) continue;
+
+      const targets = peers[a].filter(cell => cell !== pivot && cell !== b && board.sees(cell, b));
+      const eliminations = eliminationsFor(board, targets, z);
+      if (eliminations.length > 0) {
+        return {
+          technique: 'xy-wing',
+          placements: [],
+          eliminations,
+          cells: [pivot, a, b].map(cell => board.position(cell)),
+          digits: maskToDigits(pivotMask | z),
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Simple coloring: alternate two colors along conjugate pairs of a digit.
+ * Two same-colored cells seeing each other rule that color out (color wrap);
+ * an uncolored cell seeing both colors loses the digit (color trap).
+ */
+const findSimpleColoring = (board: CandidateBoard): LogicalStep | null => {
+  const { units, size } = board.layout;
+
+  for (let digit = 1; digit <= size; digit++) {
+    const bit = digitBit(digit);
+    const links = new Map<number, number[]>();
+
+    units.forEach(unit => {
+      const cells = cellsWithDigit(board, unit, digit);
+      if (cells.length !== 2) return;
+      const [a, b] = cells;
+      links.set(a, [...(links.get(a) || []), b]);
+      links.set(b, [...(links.get(b) || []), a]);
+    });
+
+    const colors = new Map<number, number>();
+    for (const start of Array.from(links.keys())) {
+      if (colors.has(start)) continue;
+
+      // Breadth-first 2-coloring of one connected chain
+      const chain: number[] = [start];
+      colors.set(start, 0);
+      for (let i = 0; i < chain.length; i++) {
+        for (const next of links.get(chain[i]) || []) {
+          if (!colors.has(next)) {
+            colors.set(next, 1 - colors.get(chain[i])!);
+            chain.push(next);
+          }
+        }
+      }
+      if (chain.length < 3) continue;
+
+      const byColor = [0, 1].map(color => chain.filter(cell => colors.get(cell) === color));
+      const pattern = chain.map(cell => board.position(cell));
+
+      // Color wrap
+      for (const group of byColor) {
+        const clashes = group.some(a => group.some(b => board.sees(a, b)));
+        if (clashes) {
+          return {
+            technique: 'simple-coloring',
+            placements: [],
+            eliminations: eliminationsFor(board, group, bit),
+            cells: pattern,
+            digits: [digit],
+          };
+        }
+      }
+
+      // Color trap
+      const cellCount = size * size;
+      const trapped: number[] = [];
+      for (let cell = 0; cell < cellCount; cell++) {
+        if (!(board.candidates[cell] & bit) || colors.has(cell)) continue;
+        if (byColor.every(group => group.some(colored => board.sees(cell, colored)))) {
+          trapped.push(cell);
+        }
+      }
+      if (trapped.length > 0) {
+        return {
+          technique: 'simple-coloring',
+          placements: [],
+          eliminations: eliminationsFor(board, trapped, bit),
+          cells: pattern,
+          digits: [digit],
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+const STEP_FINDERS: ((board: CandidateBoard) => LogicalStep | null)[] = [
+  findHiddenSingle,
+  findNakedSingle,
+  board => findIntersection(board, 'pointing-pair'),
+  board => findIntersection(board, 'box-line-reduction'),
+  board => findNakedSubset(board, 2),
+  board => findHiddenSubset(board, 2),
+  board => findNakedSubset(board, 3),
+  board => findHiddenSubset(board, 3),
+  board => findFish(board, 2),
+  board => findFish(board, 3),
+  findXYWing,
+  findSimpleColoring,
+];
+
+// Player-facing names use 1-based rows, columns and boxes, e.g. r3c5
+const cellName = ({ row, col }: CellPosition) => `r${row + 1}c${col + 1}`;
+
+const unitName = ({ type, index }: SudokuUnit) => `${type === 'col' ? 'column' : type} ${index + 1}`;
+
+const listNames = (names: string[]): string =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const eliminatedCellNames = (step: LogicalStep): string =>
+  listNames(Array.from(new Set(step.eliminations.map(cellName))));
+
+const boxIndex = ({ row, col }: CellPosition, gridConfig: GridConfig) =>
+  Math.floor(row / gridConfig.subGridRows) * (gridConfig.size / gridConfig.subGridCols) +
+  Math.floor(col / gridConfig.subGridCols);
+
+/**
+ * Solves puzzles using only human techniques and grades them by what was needed
+ */
+export class LogicalSolver {
+  /**
+   * Apply the easiest available technique until the puzzle is solved or logic runs out
+   */
+  static solve(grid: SudokuGrid, gridConfig: GridConfig): { grid: SudokuGrid; steps: LogicalStep[]; grade: PuzzleGrade } {
+    const board = new CandidateBoard(grid, gridConfig);
+    const emptyCells = board.values.filter(value => !value).length;
+    const steps: LogicalStep[] = [];
+
+    while (!board.isSolved() && !board.hasContradiction()) {
+      const step = this.findStep(board);
+      if (!step) break;
+
+      board.apply(step);
+      steps.push(step);
+    }
+
+    return {
+      grid: board.toGrid(),
+      steps,
+      grade: this.gradeSteps(steps, board.isSolved(), emptyCells),
+    };
+  }
+
+  /**
+   * Grade a puzzle by the techniques needed to solve it
+   */
+  static grade(grid: SudokuGrid, gridConfig: GridConfig): PuzzleGrade {
+    return this.solve(grid, gridConfig).grade;
+  }
+
+  /**
+   * Find the next digit that logic can place, together with the deductions
+   * (usually candidate eliminations) needed to see it.
+   * Returns null when no known technique makes progress.
+   */
+  static getHint(grid: SudokuGrid, gridConfig: GridConfig): Hint | null {
+    const board = new CandidateBoard(grid, gridConfig);
+    const steps: LogicalStep[] = [];
+
+    while (!board.isSolved() && !board.hasContradiction()) {
+      const step = this.findStep(board);
+      if (!step) return null;
+      steps.push(step);
+
+      if (step.placements.length > 0) {
+        const hardest = steps.reduce((a, b) => (techniqueInfo(b.technique).weight > techniqueInfo(a.technique).weight ? b : a));
+        const cells = new Map<string, CellPosition>();
+        steps.forEach(s => s.cells.forEach(cell => cells.set(cellName(cell), cell)));
+
+        return {
+          technique: hardest.technique,
+          descriptions: steps.map(s => this.describeStep(s, gridConfig)),
+          cells: Array.from(cells.values()),
+          // Naked singles have no unit of their own
+          unit: step.unit ?? { type: 'box', index: boxIndex(step.placements[0], gridConfig) },
+          placement: step.placements[0],
+        };
+      }
+
+      board.apply(step);
+    }
+
+    return null;
+  }
+
+  /**
+   * Explain a step in words, e.g. "Hidden single: 7 can only go in r3c5 within box 2"
+   */
+  static describeStep(step: LogicalStep, gridConfig: GridConfig): string {
+    const name = this.getTechniqueName(step.technique);
+    const digits = listNames(step.digits.map(String));
+    const cells = listNames(step.cells.map(cellName));
+    const unit = step.unit ? unitName(step.unit) : '';
+
+    switch (step.technique) {
+      case 'hidden-single':
+        return `${name}: ${digits} can only go in ${cells} within ${unit}`;
+      case 'naked-single':
+        return `${name}: ${cells} can only be ${digits}`;
+      case 'pointing-pair': {
+        const [first] = step.cells;
+        const line = step.cells.every(cell => cell.row === first.row)
+          ? `row ${first.row + 1}`
+          : `column ${first.col + 1}`;
+        return `${name}: within ${unit}, ${digits} is confined to ${line}, so it can be removed from the rest of ${line}`;
+      }
+      case 'box-line-reduction':
+        return `${name}: within ${unit}, ${digits} only fits in box ${boxIndex(step.cells[0], gridConfig) + 1}, ` +
+          `so it can be removed from the rest of that box`;
+      case 'naked-pair':
+      case 'naked-triple':
+        return `${name}: ${cells} only hold ${digits}, so those digits can be removed from the rest of ${unit}`;
+      case 'hidden-pair':
+      case 'hidden-triple':
+        return `${name}: ${digits} only fit in ${cells} within ${unit}, so other candidates there can be removed`;
+      case 'x-wing':
+      case 'swordfish':
+        return `${name} on ${digits} (${cells}): ${digits} can be removed from ${eliminatedCellNames(step)}`;
+      case 'xy-wing': {
+        const [pivot, ...pincers] = step.cells.map(cellName);
+        const removed = step.eliminations[0].value;
+        return `${name}: pivot ${pivot} with pincers ${listNames(pincers)}, so ${removed} can be removed from ${eliminatedCellNames(step)}`;
+      }
+      case 'simple-coloring':
+        return `${name} on ${digits}: the chain ${cells} rules out ${digits} in ${eliminatedCellNames(step)}`;
+    }
+  }
+
+  static getTechniqueName(technique: SolvingTechnique): string {
+    return techniqueInfo(technique).name;
+  }
+
+  static getUnitName(unit: SudokuUnit): string {
+    return unitName(unit);
+  }
+
+  private static findStep(board: CandidateBoard): LogicalStep | null {
+    for (const finder of STEP_FINDERS) {
+      const step = finder(board);
+      if (step) return step;
+    }
+    return null;
+  }
+
+  /**
+   * Score = 10 × hardest technique weight + 10 × average weight per empty cell.
+   * Puzzles that logic can't finish are graded expert with a guessing penalty.
+   */
+  private static gradeSteps(steps: LogicalStep[], solved: boolean, emptyCells: number): PuzzleGrade {
+    const techniqueCounts: Partial<Record<SolvingTechnique, number>> = {};
+    let hardest: TechniqueInfo | null = null;
+    let totalWeight = 0;
+
+    for (const { technique } of steps) {
+      const info = techniqueInfo(technique);
+      techniqueCounts[technique] = (techniqueCounts[technique] || 0) + 1;
+      totalWeight += info.weight;
+      if (!hardest || info.weight > hardest.weight) hardest = info;
+    }
+
+    const hardestWeight = solved ? hardest?.weight ?? 0 : GUESSING_WEIGHT;
+
+    return {
+      solved,
+      score: Math.round(10 * hardestWeight + (10 * totalWeight) / Math.max(1, emptyCells)),
+      difficulty: solved ? hardest?.difficulty ?? 'beginner' : 'expert',
+      hardestTechnique: hardest?.technique ?? null,
+      techniqueCounts,
+    };
+  }
+}
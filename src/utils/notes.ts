@@ -0,0 +1,88 @@
+import { CellNotes, CellPosition, GridConfig, PencilMarks } from '@/types/sudoku';
+import { digitBit } from './bitmask';
+import { getPeerCells } from './gridConfig';
+
+export const createEmptyNotes = (size: number): CellNotes =>
+  Array.from({ length: size }, () => Array(size).fill(0));
+
+export const createEmptyMarks = (size: number): PencilMarks => ({
+  centre: createEmptyNotes(size),
+  corner: createEmptyNotes(size),
+});
+
+/**
+ * Apply the same update to centre and corner marks
+ */
+export const mapMarks = (marks: PencilMarks, update: (notes: CellNotes) => CellNotes): PencilMarks => ({
+  centre: update(marks.centre),
+  corner: update(marks.corner),
+});
+
+const isTarget = (cells: CellPosition[], row: number, col: number) =>
+  cells.some(cell => cell.row === row && cell.col === col);
+
+/**
+ * Copy of the notes with one digit switched in every given cell. If all of
+ * them already have it, it is removed; otherwise it is added where missing.
+ */
+export const toggleNote = (notes: CellNotes, cells: CellPosition[], digit: number): CellNotes => {
+  const bit = digitBit(digit);
+  const hasEverywhere = cells.every(({ row, col }) => notes[row][col] & bit);
+
+  return notes.map((masks, row) =>
+    masks.map((mask, col) => {
+      if (!isTarget(cells, row, col)) return mask;
+      return hasEverywhere ? mask & ~bit : mask | bit;
+    })
+  );
+};
+
+/**
+ * Copy of the notes after placing `digit` at (row, col): the cell's own notes
+ * are cleared and the digit is crossed off in every row, column and box peer.
+ */
+export const clearNotesForPlacement = (
+  notes: CellNotes,
+  row: number,
+  col: number,
+  digit: number,
+  gridConfig: GridConfig
+): CellNotes => {
+  const next = notes.map(cells => [...cells]);
+  const bit = digitBit(digit);
+
+  getPeerCells(row, col, gridConfig).forEach(cell => (next[cell.row][cell.col] &= ~bit));
+
+  next[row][col] = 0;
+  return next;
+};
+
+/**
+ * Counterpart of clearNotesForPlacement for automatic candidates: after the
+ * digit at (row, col) is taken out, peers that can hold it again get it back
+ * and the cell gets its candidates. `candidates` are those of the new grid.
+ */
+export const restoreNotesForRemoval = (
+  notes: CellNotes,
+  row: number,
+  col: number,
+  digit: number,
+  candidates: CellNotes,
+  gridConfig: GridConfig
+): CellNotes => {
+  const next = notes.map(cells => [...cells]);
+  const bit = digitBit(digit);
+
+  getPeerCells(row, col, gridConfig).forEach(cell => {
+    next[cell.row][cell.col] |= bit & candidates[cell.row][cell.col];
+  });
+
+  next[row][col] = candidates[row][col];
+  return next;
+};
+
+/**
+ * Copy of the notes with every note of the given cells removed
+ */
+export const clearCellNotes = (notes: CellNotes, cells: CellPosition[]): CellNotes =>
+  notes.map((masks, row) => masks.map((mask, col) => (isTarget(cells, row, col) ? 0 : mask)));
@@ -0,0 +1,25 @@
+import { RandomSource } from '@/types/sudoku';
+
+// Seeds stay short enough to read out or paste into a bug report
+export const SEED_DIGITS = 6;
+
+export const createSeed = (): number => Math.floor(Math.random() * 10 ** SEED_DIGITS);
+
+// Unique enough to key a browser's saved games
+export const createGameId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Seeded PRNG (mulberry32): the same seed always yields the same sequence
+ * of numbers in [0, 1), on every platform.
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,91 @@
+import { GameState } from '@/types/sudoku';
+import { isGridSize } from './gridConfig';
+import { createGameId } from './random';
+import { readClock } from './clock';
+import { DEFAULT_ASSIST_LEVEL } from './assist';
+
+export const SAVED_GAME_KEY = 'sudokuz:saved-game';
+// Bump when the saved shape changes; older saves are then ignored
+const SAVED_GAME_VERSION = 1;
+// Moves kept when the full history doesn't fit in storage
+const FALLBACK_HISTORY_LENGTH = 50;
+
+/**
+ * GameState as stored: the error set becomes a list, and the clock is kept as
+ * time played so a restored game doesn't count the time the tab was closed.
+ */
+interface SavedGame extends Omit<GameState, 'errors' | 'clock' | 'isPaused'> {
+  version: number;
+  errors: string[];
+  elapsedMs: number;
+}
+
+export const serializeGame = (state: GameState, now = Date.now()): string => {
+  const { errors, clock, isPaused: _isPaused, ...rest } = state;
+  const saved: SavedGame = {
+    ...rest,
+    version: SAVED_GAME_VERSION,
+    errors: Array.from(errors),
+    elapsedMs: readClock(clock, now),
+  };
+  return JSON.stringify(saved);
+};
+
+// Defaults for fields missing from older version-1 saves, written before
+// these fields existed. They're optional additions, so the version stays 1.
+const fieldDefaults = (): Pick<
+  GameState,
+  'id' | 'mistakes' | 'strikeLimit' | 'isGameOver' | 'assistLevel' | 'usedSolve'
+> => ({
+  id: createGameId(),
+  mistakes: 0,
+  strikeLimit: null,
+  isGameOver: false,
+  assistLevel: DEFAULT_ASSIST_LEVEL,
+  usedSolve: false,
+});
+
+/**
+ * Inverse of serializeGame, with the clock of an unfinished game running again from `now`.
+ * Anything unreadable or from another version gives null.
+ */
+export const deserializeGame = (json: string, now = Date.now()): GameState | null => {
+  try {
+    const { version, errors, elapsedMs, ...rest } = JSON.parse(json) as SavedGame;
+    if (version !== SAVED_GAME_VERSION) return null;
+    if (!isGridSize(rest.gridConfig?.size) || rest.grid?.length !== rest.gridConfig.size) return null;
+
+    return {
+      ...fieldDefaults(),
+      ...rest,
+      errors: new Set(errors),
+      clock: { elapsedMs, runningSince: rest.isComplete || rest.isGameOver ? null : now },
+      isPaused: false,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const saveGame = (state: GameState): void => {
+  try {
+    localStorage.setItem(SAVED_GAME_KEY, serializeGame(state));
+  } catch {
+    // Most likely over quota: keep the game and drop most of the history
+    try {
+      const history = { past: state.history.past.slice(-FALLBACK_HISTORY_LENGTH), future: [] };
+      localStorage.setItem(SAVED_GAME_KEY, serializeGame({ ...state, history }));
+    } catch {
+      // Storage is unavailable (disabled, private mode) - play on without saving
+    }
+  }
+};
+
+export const loadSavedGame = (): GameState | null => {
+  try {
+    const json = localStorage.getItem(SAVED_GAME_KEY);
+    return json ? deserializeGame(json) : null;
+  } catch {
+    return null;
+  }
+};
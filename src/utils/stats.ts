@@ -0,0 +1,93 @@
+import { GameRecord, GameState, PlayerStats, CategoryStats } from '@/types/sudoku';
+import { DIFFICULTIES } from './gridConfig';
+import { readClock } from './clock';
+import { ASSIST_LEVELS, DEFAULT_ASSIST_LEVEL } from './assist';
+
+export const STATS_KEY = 'sudokuz:stats';
+// Oldest records are dropped beyond this
+const MAX_RECORDS = 1000;
+
+export const createGameRecord = (state: GameState): GameRecord => ({
+  id: state.id,
+  size: state.gridConfig.size,
+  difficulty: state.difficulty,
+  seed: state.seed,
+  elapsedMs: readClock(state.clock, state.finishedAt),
+  hintsUsed: Object.values(state.hintsUsed).reduce((sum, count) => sum + count, 0),
+  mistakes: state.mistakes,
+  usedSolve: state.usedSolve,
+  won: state.isComplete && !state.usedSolve,
+  struckOut: state.isGameOver,
+  assistLevel: state.assistLevel,
+  finishedAt: state.finishedAt ?? Date.now(),
+});
+
+const summarizeCategory = (records: GameRecord[]): Omit<CategoryStats, 'size' | 'difficulty'> => {
+  const times = records.filter(record => record.won).map(record => record.elapsedMs);
+
+  return {
+    played: records.length,
+    won: times.length,
+    bestTimeMs: times.length > 0 ? Math.min(...times) : null,
+    averageTimeMs: times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null,
+  };
+};
+
+export const summarizeStats = (records: GameRecord[]): PlayerStats => {
+  const ordered = [...records].sort((a, b) => a.finishedAt - b.finishedAt);
+
+  let currentStreak = 0;
+  let longestStreak = 0;
+  ordered.forEach(record => {
+    currentStreak = record.won ? currentStreak + 1 : 0;
+    longestStreak = Math.max(longestStreak, currentStreak);
+  });
+
+  const categories: CategoryStats[] = [];
+  const sizes = Array.from(new Set(ordered.map(record => record.size))).sort((a, b) => a - b);
+  sizes.forEach(size => DIFFICULTIES.forEach(difficulty => {
+    const played = ordered.filter(record => record.size === size && record.difficulty === difficulty);
+    if (played.length > 0) categories.push({ size, difficulty, ...summarizeCategory(played) });
+  }));
+
+  const won = ordered.filter(record => record.won).length;
+  const mistakes = ordered.reduce((sum, record) => sum + record.mistakes, 0);
+  const winsByAssist = ASSIST_LEVELS.reduce((wins, level) => ({
+    ...wins,
+    [level]: ordered.filter(record => record.won && (record.assistLevel ?? DEFAULT_ASSIST_LEVEL) === level).length,
+  }), {} as PlayerStats['winsByAssist']);
+  return {
+    played: ordered.length,
+    won,
+    winRate: ordered.length > 0 ? Math.round((won / ordered.length) * 100) : 0,
+    currentStreak,
+    longestStreak,
+    averageMistakes: ordered.length > 0 ? Math.round((mistakes / ordered.length) * 10) / 10 : 0,
+    winsByAssist,
+    categories,
+  };
+};
+
+export const loadGameRecords = (): GameRecord[] => {
+  try {
+    const records = JSON.parse(localStorage.getItem(STATS_KEY) ?? '[]');
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Add a finished game to the statistics; a game already recorded is left alone
+ */
+export const recordFinishedGame = (state: GameState): void => {
+  const records = loadGameRecords();
+  if (records.some(record => record.id === state.id)) return;
+
+  try {
+    const updated = [...records, createGameRecord(state)].slice(-MAX_RECORDS);
+    localStorage.setItem(STATS_KEY, JSON.stringify(updated));
+  } catch {
+    // Storage is unavailable - the game just isn't counted
+  }
+};
@@ -1,89 +1,142 @@
-import { SudokuGrid, Difficulty, GridConfig } from '@/types/sudoku';
+import {
+  SudokuGrid,
+  Difficulty,
+  GridConfig,
+  GridSize,
+  GeneratedPuzzle,
+  GenerationOptions,
+  PuzzleGrade,
+  RandomSource,
+  ClueSymmetry,
+} from '@/types/sudoku';
 import { SudokuSolver } from './sudokuSolver';
-import { getGridConfig } from './gridConfig';
+import { LogicalSolver } from './logicalSolver';
+import { DIFFICULTIES, getGridConfig, getDifficultySettings } from './gridConfig';
+import { createRandom, createSeed } from './random';
+
+// Keeps generation responsive on large grids: each uniqueness check gets a
+// step budget, and digging stops once the check budget is spent. Both count
+// work rather than time, so a seed gives the same puzzle on every device.
+const UNIQUENESS_STEP_BUDGET = 2000;
+// 400 checks take about two seconds for a 25×25 expert puzzle.
+const GENERATION_CHECK_BUDGET = 400;
+// Much smaller budget for the fallback puzzle, which has to be ready at once
+const FALLBACK_CHECK_BUDGET = 40;
+
+// Fresh puzzles to try when the logical grade misses the requested difficulty
+const MAX_GRADING_ATTEMPTS = 5;
 
 export class SudokuGenerator {
-  static generatePuzzle(difficulty: Difficulty): { puzzle: SudokuGrid; solution: SudokuGrid; gridConfig: GridConfig } {
-    const gridConfig = getGridConfig(difficulty);
-    
-    // For now, let's simplify and create pre-made puzzles for different sizes
-    const { puzzle, solution } = this.createPredefinedPuzzle(gridConfig);
-    
-    return {
-      puzzle: puzzle.map(row => [...row]),
-      solution: solution.map(row => [...row]),
-      gridConfig
-    };
+  /**
+   * Generate a unique puzzle, retrying until its logical grade matches the
+   * requested difficulty. If no attempt matches, the closest one is returned.
+   * The same size, difficulty, seed and options always give the same puzzle.
+   *
+   * In minimal mode every clue gets one removal check, so the check budget
+   * is lifted; the result has no retries since its clue count isn't steered.
+   * A check that runs out of steps keeps its clue, so very large minimal
+   * puzzles may hold the odd clue that isn't strictly needed. Minimal mode
+   * removes clues one at a time and so ignores the symmetry: a symmetric
+   * pair can hold a clue that could go on its own.
+   */
+  static generatePuzzle(
+    size: GridSize,
+    difficulty: Difficulty,
+    seed: number = createSeed(),
+    options: GenerationOptions = {}
+  ): GeneratedPuzzle {
+    return options.minimal
+      ? this.generate(size, difficulty, seed, options, Infinity, 1)
+      : this.generate(size, difficulty, seed, options, GENERATION_CHECK_BUDGET, MAX_GRADING_ATTEMPTS);
   }
 
-  private static createPredefinedPuzzle(gridConfig: GridConfig): { puzzle: SudokuGrid; solution: SudokuGrid } {
-    switch (gridConfig.size) {
-      case 4:
-        return this.create4x4Puzzle();
-      case 6:
-        return this.create6x6Puzzle();
-      case 16:
-        return this.create16x16Puzzle();
-      default:
-        return this.create6x6Puzzle();
-    }
+  /**
+   * Quick stand-in for when full generation takes too long: a single attempt
+   * that stops digging after a few uniqueness checks. Still unique, but with
+   * more clues than requested and not the puzzle `generatePuzzle` gives for the seed.
+   */
+  static generateFallbackPuzzle(
+    size: GridSize,
+    difficulty: Difficulty,
+    seed: number = createSeed(),
+    options: GenerationOptions = {}
+  ): GeneratedPuzzle {
+    return this.generate(size, difficulty, seed, options, FALLBACK_CHECK_BUDGET, 1);
   }
 
-  private static create4x4Puzzle(): { puzzle: SudokuGrid; solution: SudokuGrid } {
-    const solution = [
-      [1, 2, 3, 4],
-      [3, 4, 1, 2],
-      [2, 1, 4, 3],
-      [4, 3, 2, 1]
-    ];
-    
-    const puzzle = [
-      [1, null, null, 4],
-      [null, 4, 1, null],
-      [2, null, null, 3],
-      [null, 3, 2, null]
-    ];
-    
-    return { puzzle, solution };
-  }
+  private static generate(
+    size: GridSize,
+    difficulty: Difficulty,
+    seed: number,
+    { symmetry = 'none', minimal = false }: GenerationOptions,
+    checkBudget: number,
+    maxAttempts: number
+  ): GeneratedPuzzle {
+    const gridConfig = getGridConfig(size);
+    const cellsToRemove = minimal ? size * size : getDifficultySettings(difficulty, gridConfig).cellsToRemove;
+    const random = createRandom(seed);
+    const budget = { checks: checkBudget };
+    const targetRank = DIFFICULTIES.indexOf(difficulty);
+    // Minimal puzzles try every clue on its own
+    const removalSymmetry = minimal ? 'none' : symmetry;
+
+    let best: { puzzle: SudokuGrid; solution: SudokuGrid; grade: PuzzleGrade; distance: number } | null = null;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Random complete grid, then dig holes while the solution stays unique
+      const solution = SudokuSolver.generateComplete(gridConfig, random);
+      const puzzle = this.removeNumbers(solution, cellsToRemove, gridConfig, removalSymmetry, random, budget);
+      const grade = LogicalSolver.grade(puzzle, gridConfig);
+      const distance = Math.abs(DIFFICULTIES.indexOf(grade.difficulty) - targetRank);
+
+      if (!best || distance < best.distance) {
+        best = { puzzle, solution, grade, distance };
+      }
+      if (distance === 0 || budget.checks <= 0) break;
+    }
 
-  private static create6x6Puzzle(): { puzzle: SudokuGrid; solution: SudokuGrid } {
-    const solution = [
-      [1, 2, 3, 4, 5, 6],
-      [4, 5, 6, 1, 2, 3],
-      [2, 3, 1, 5, 6, 4],
-      [5, 6, 4, 2, 3, 1],
-      [3, 1, 2, 6, 4, 5],
-      [6, 4, 5, 3, 1, 2]
-    ];
-    
-    const puzzle = [
-      [1, null, null, 4, null, 6],
-      [null, 5, null, null, 2, null],
-      [2, null, 1, null, null, 4],
-      [null, 6, null, 2, null, null],
-      [null, 1, null, null, 4, null],
-      [6, null, 5, null, null, 2]
-    ];
-    
-    return { puzzle, solution };
+    return {
+      puzzle: best!.puzzle,
+      solution: this.copyGrid(best!.solution),
+      gridConfig,
+      seed,
+      clueCount: best!.puzzle.flat().filter(cell => cell !== null).length,
+      // Each removal kept the puzzle unique; count anyway so the warning reflects the real grid
+      solutionCount: SudokuSolver.countSolutions(best!.puzzle, gridConfig, 2),
+      grade: best!.grade
+    };
   }
 
-  private static create16x16Puzzle(): { puzzle: SudokuGrid; solution: SudokuGrid } {
-    // Create a simple 16x16 solution (this would normally be generated)
-    const solution = Array(16).fill(null).map((_, row) => 
-      Array(16).fill(null).map((_, col) => ((row * 4 + Math.floor(row / 4) + col) % 16) + 1)
-    );
-    
-    // Create puzzle by removing some numbers
-    const puzzle = solution.map((row, rowIndex) => 
-      row.map((cell, colIndex) => {
-        // Remove about 70% of numbers for hard difficulty
-        return (rowIndex + colIndex) % 3 === 0 ? null : cell;
-      })
-    );
-    
-    return { puzzle, solution };
+  /**
+   * Remove clues in random order until the target count is reached.
+   * Symmetric cells are removed in pairs, only if the puzzle still has
+   * exactly one solution, so the result may keep more clues than requested
+   * (or one fewer, when the last removal is a pair).
+   */
+  private static removeNumbers(
+    solution: SudokuGrid,
+    cellsToRemove: number,
+    gridConfig: GridConfig,
+    symmetry: ClueSymmetry,
+    random: RandomSource,
+    budget: { checks: number }
+  ): SudokuGrid {
+    const puzzle = this.copyGrid(solution);
+
+    let removed = 0;
+    for (const group of SudokuSolver.createRemovalOrder(gridConfig, symmetry, random)) {
+      if (removed >= cellsToRemove || budget.checks-- <= 0) break;
+
+      group.forEach(({ row, col }) => (puzzle[row][col] = null));
+
+      if (SudokuSolver.hasUniqueSolution(puzzle, gridConfig, UNIQUENESS_STEP_BUDGET)) {
+        removed += group.length;
+      } else {
+        group.forEach(({ row, col }) => (puzzle[row][col] = solution[row][col]));
+      }
+    }
+
+    return puzzle;
   }
 
   static createEmptyGrid(size: number): SudokuGrid {
@@ -93,14 +146,4 @@ export class SudokuGenerator {
   static copyGrid(grid: SudokuGrid): SudokuGrid {
     return grid.map(row => [...row]);
   }
-
-  static getDifficultySettings(difficulty: Difficulty) {
-    const settings = {
-      easy: { name: '4×4 Easy', cellsToRemove: 6, color: 'from-green-400 to-emerald-500' },
-      medium: { name: '6×6 Medium', cellsToRemove: 18, color: 'from-yellow-400 to-orange-500' },
-      hard: { name: '16×16 Hard', cellsToRemove: 180, color: 'from-red-400 to-pink-500' }
-    };
-    
-    return settings[difficulty];
-  }
 }
@@ -1,17 +1,92 @@
-import { SudokuGrid, CellPosition, ValidationResult, Difficulty, GridConfig } from '@/types/sudoku';
-import { getGridConfig, getDifficultySettings } from './gridConfig';
+import {
+  SudokuGrid,
+  CellPosition,
+  CellNotes,
+  ValidationResult,
+  GridConfig,
+  SolverAlgorithm,
+  RandomSource,
+  ClueSymmetry,
+} from '@/types/sudoku';
+import { DancingLinks } from './dancingLinks';
+import { allDigits, digitBit, maskToDigits, popcount } from './bitmask';
+
+/**
+ * Digits already used in every row, column and box, as bitmasks.
+ * Search code keeps it in step with the grid, so a cell's candidates
+ * are a couple of bit operations instead of a scan of its peers.
+ */
+class UsedDigits {
+  private readonly rows: number[];
+  private readonly cols: number[];
+  private readonly boxes: number[];
+  private readonly everyDigit: number;
+
+  constructor(grid: SudokuGrid, private readonly gridConfig: GridConfig) {
+    const { size, maxNumber } = gridConfig;
+    this.rows = Array(size).fill(0);
+    this.cols = Array(size).fill(0);
+    this.boxes = Array(size).fill(0);
+    this.everyDigit = allDigits(maxNumber);
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const value = grid[row][col];
+        if (value !== null) this.place(row, col, value);
+      }
+    }
+  }
+
+  private boxOf(row: number, col: number): number {
+    const { size, subGridRows, subGridCols } = this.gridConfig;
+    return Math.floor(row / subGridRows) * (size / subGridCols) + Math.floor(col / subGridCols);
+  }
+
+  candidates(row: number, col: number): number {
+    return this.everyDigit & ~(this.rows[row] | this.cols[col] | this.boxes[this.boxOf(row, col)]);
+  }
+
+  place(row: number, col: number, digit: number): void {
+    const bit = digitBit(digit);
+    this.rows[row] |= bit;
+    this.cols[col] |= bit;
+    this.boxes[this.boxOf(row, col)] |= bit;
+  }
+
+  remove(row: number, col: number, digit: number): void {
+    const bit = ~digitBit(digit);
+    this.rows[row] &= bit;
+    this.cols[col] &= bit;
+    this.boxes[this.boxOf(row, col)] &= bit;
+  }
+}
+
+// The cell whose clue is kept or removed together with (row, col)
+const symmetricCell: Record<ClueSymmetry, (row: number, col: number, size: number) => CellPosition> = {
+  none: (row, col) => ({ row, col }),
+  rotational: (row, col, size) => ({ row: size - 1 - row, col: size - 1 - col }),
+  mirror: (row, col, size) => ({ row, col: size - 1 - col }),
+  diagonal: (row, col) => ({ row: col, col: row }),
+};
+
+interface CellCandidates {
+  row: number;
+  col: number;
+  candidates: number;
+}
 
 /**
  * Optimized Sudoku solver with efficient algorithms and robust validation
  */
 export class SudokuSolver {
-  // Cache for validation results with size limit
-  private static validationCache = new Map<string, boolean>();
-  private static readonly MAX_CACHE_SIZE = 10000; // Reasonable cache size limit
+  // Random backtracking fill gets too slow beyond 16x16
+  private static readonly PATTERN_FILL_MIN_SIZE = 20;
+  // From this size on, Dancing Links beats cell-by-cell backtracking
+  private static readonly DANCING_LINKS_MIN_SIZE = 12;
   
   /**
-   * Check if placing a number at a position is valid
-   * Optimized with early termination and efficient box calculation
+   * Check if placing a number at a position is valid.
+   * A one-off check scans the cell's peers; the solver itself uses bitmasks.
    */
   static isValidMove(grid: SudokuGrid, row: number, col: number, num: number, gridConfig: GridConfig): boolean {
     const size = gridConfig.size;
@@ -46,28 +121,40 @@ export class SudokuSolver {
   }
 
   /**
-   * Solve sudoku using backtracking with optimized cell selection
-   * Uses Most Constrained Variable (MCV) heuristic for better performance
+   * Solver used when the caller doesn't pick one: Dancing Links for large grids
    */
-  static solve(grid: SudokuGrid, gridConfig: GridConfig): boolean {
-    this.clearCache(); // Clear cache for fresh solve
-    return this.solveRecursive(grid, gridConfig);
+  static getDefaultAlgorithm(gridConfig: GridConfig): SolverAlgorithm {
+    return gridConfig.size >= this.DANCING_LINKS_MIN_SIZE ? 'dancing-links' : 'backtracking';
   }
 
-  private static solveRecursive(grid: SudokuGrid, gridConfig: GridConfig): boolean {
-    const bestCell = this.findBestEmptyCell(grid, gridConfig);
+  /**
+   * Solve sudoku in place.
+   * Backtracking uses the Most Constrained Variable (MCV) heuristic.
+   */
+  static solve(
+    grid: SudokuGrid,
+    gridConfig: GridConfig,
+    algorithm: SolverAlgorithm = this.getDefaultAlgorithm(gridConfig)
+  ): boolean {
+    if (algorithm === 'dancing-links') return DancingLinks.solve(grid, gridConfig);
+
+    return this.solveRecursive(grid, new UsedDigits(grid, gridConfig));
+  }
+
+  private static solveRecursive(grid: SudokuGrid, used: UsedDigits): boolean {
+    const bestCell = this.findBestEmptyCell(grid, used);
     if (!bestCell) return true; // Puzzle solved
 
-    const [row, col] = bestCell;
-    const possibleNumbers = this.getPossibleNumbers(grid, row, col, gridConfig);
+    const { row, col, candidates } = bestCell;
     
-    // Try numbers in order of constraint (fewer possibilities first)
-    for (const num of possibleNumbers) {
+    for (const num of maskToDigits(candidates)) {
       grid[row][col] = num;
+      used.place(row, col, num);
       
-      if (this.solveRecursive(grid, gridConfig)) return true;
+      if (this.solveRecursive(grid, used)) return true;
       
-      grid[row][col] = null; // Backtrack
+      used.remove(row, col, num); // Backtrack
+      grid[row][col] = null;
     }
 
     return false;
@@ -76,21 +163,22 @@ export class SudokuSolver {
   /**
    * Find the empty cell with the fewest possible values (MCV heuristic)
    */
-  private static findBestEmptyCell(grid: SudokuGrid, gridConfig: GridConfig): [number, number] | null {
-    let bestCell: [number, number] | null = null;
-    let minPossibilities = gridConfig.maxNumber + 1;
+  private static findBestEmptyCell(grid: SudokuGrid, used: UsedDigits): CellCandidates | null {
+    let bestCell: CellCandidates | null = null;
+    let minPossibilities = Infinity;
 
-    for (let row = 0; row < gridConfig.size; row++) {
-      for (let col = 0; col < gridConfig.size; col++) {
+    for (let row = 0; row < grid.length; row++) {
+      for (let col = 0; col < grid.length; col++) {
         if (grid[row][col] === null) {
-          const possibilities = this.getPossibleNumbers(grid, row, col, gridConfig).length;
+          const candidates = used.candidates(row, col);
+          const possibilities = popcount(candidates);
           
           if (possibilities < minPossibilities) {
             minPossibilities = possibilities;
-            bestCell = [row, col];
+            bestCell = { row, col, candidates };
             
-            // If only one possibility, return immediately
-            if (possibilities === 1) return bestCell;
+            // Dead end or forced cell - no need to look further
+            if (possibilities <= 1) return bestCell;
           }
         }
       }
@@ -100,162 +188,207 @@ export class SudokuSolver {
   }
 
   /**
-   * Get all possible numbers for a cell
+   * Generate a complete valid Sudoku solution
+   * Uses optimized solving with randomization for variety;
+   * pass a seeded `random` to get the same grid every time.
    */
-  private static getPossibleNumbers(grid: SudokuGrid, row: number, col: number, gridConfig: GridConfig): number[] {
-    const possible: number[] = [];
-    
-    for (let num = 1; num <= gridConfig.maxNumber; num++) {
-      if (this.isValidMove(grid, row, col, num, gridConfig)) {
-        possible.push(num);
-      }
+  static generateComplete(gridConfig: GridConfig, random: RandomSource = Math.random): SudokuGrid {
+    if (gridConfig.size >= this.PATTERN_FILL_MIN_SIZE) {
+      return this.generateFromPattern(gridConfig, random);
     }
-    
-    return possible;
-  }
 
-  /**
-   * Generate a complete valid Sudoku solution
-   * Uses optimized solving with randomization for variety
-   */
-  static generateComplete(gridConfig: GridConfig): SudokuGrid {
     const size = gridConfig.size;
     const grid: SudokuGrid = Array(size).fill(null).map(() => Array(size).fill(null));
-    this.fillGridRandomly(grid, gridConfig);
+    this.fillGridRandomly(grid, new UsedDigits(grid, gridConfig), random);
     return grid;
   }
 
-  private static fillGridRandomly(grid: SudokuGrid, gridConfig: GridConfig): boolean {
-    const emptyCell = this.findFirstEmptyCell(grid);
-    if (!emptyCell) return true;
+  /**
+   * Build a solution from the canonical shifted pattern, then shuffle digits,
+   * rows within bands, bands, columns within stacks and stacks.
+   * Every step keeps the grid valid, so this is instant even for 25x25.
+   */
+  private static generateFromPattern(gridConfig: GridConfig, random: RandomSource): SudokuGrid {
+    const { size, subGridRows, subGridCols } = gridConfig;
+    const digits = this.shuffleArray(Array.from({ length: size }, (_, i) => i + 1), random);
+
+    // Shuffle bands/stacks as blocks, then the lines inside each block
+    const shuffleLines = (blockSize: number) =>
+      this.shuffleArray(Array.from({ length: size / blockSize }, (_, i) => i), random).flatMap(block =>
+        this.shuffleArray(Array.from({ length: blockSize }, (_, i) => block * blockSize + i), random)
+      );
+    const rows = shuffleLines(subGridRows);
+    const cols = shuffleLines(subGridCols);
+
+    return rows.map(r =>
+      cols.map(c => digits[(subGridCols * (r % subGridRows) + Math.floor(r / subGridRows) + c) % size])
+    );
+  }
 
-    const [row, col] = emptyCell;
-    const numbers = this.shuffleArray(Array.from({ length: gridConfig.maxNumber }, (_, i) => i + 1));
+  /**
+   * Fill the grid with a random valid solution.
+   * Uses the MCV heuristic so larger grids don't get stuck in deep dead ends.
+   */
+  private static fillGridRandomly(grid: SudokuGrid, used: UsedDigits, random: RandomSource): boolean {
+    const bestCell = this.findBestEmptyCell(grid, used);
+    if (!bestCell) return true;
 
-    for (const num of numbers) {
-      if (this.isValidMove(grid, row, col, num, gridConfig)) {
-        grid[row][col] = num;
-        
-        if (this.fillGridRandomly(grid, gridConfig)) return true;
-        
-        grid[row][col] = null;
-      }
-    }
+    const { row, col, candidates } = bestCell;
 
-    return false;
-  }
-
-  private static findFirstEmptyCell(grid: SudokuGrid): [number, number] | null {
-    for (let row = 0; row < 9; row++) {
-      for (let col = 0; col < 9; col++) {
-        if (grid[row][col] === null) return [row, col];
-      }
-    }
-    return null;
-  }
+    for (const num of this.shuffleArray(maskToDigits(candidates), random)) {
+      grid[row][col] = num;
+      used.place(row, col, num);
 
-  // DEPRECATED: Not used - we use pre-made puzzles instead
-  /*
-  static removeNumbers(grid: SudokuGrid, difficulty: Difficulty, gridConfig: GridConfig): SudokuGrid {
-    const puzzleGrid = this.cloneGrid(grid);
-    const targetRemoval = getDifficultySettings(difficulty);
+      if (this.fillGridRandomly(grid, used, random)) return true;
 
-    // Create positions array with symmetrical pairs preference
-    const positions = this.createRemovalOrder(gridConfig);
-    
-    let removed = 0;
-    for (const { row, col } of positions) {
-      if (removed >= targetRemoval.cellsToRemove) break;
-      
-      const backup = puzzleGrid[row][col];
-      puzzleGrid[row][col] = null;
-      
-      // Verify puzzle still has unique solution
-      if (this.hasUniqueSolution(puzzleGrid)) {
-        removed++;
-      } else {
-        puzzleGrid[row][col] = backup;
-      }
+      used.remove(row, col, num);
+      grid[row][col] = null;
     }
 
-    return puzzleGrid;
-  }
-  */
-
-  private static getDifficultySettings(difficulty: Difficulty) {
-    const settings = {
-      easy: { cellsToRemove: 40, name: 'Easy' },
-      medium: { cellsToRemove: 50, name: 'Medium' },
-      hard: { cellsToRemove: 60, name: 'Hard' },
-      expert: { cellsToRemove: 70, name: 'Expert' }
-    };
-    
-    return settings[difficulty] || settings.medium;
+    return false;
   }
 
-  private static createRemovalOrder(gridConfig: GridConfig): { row: number; col: number }[] {
-    const positions: { row: number; col: number }[] = [];
+  /**
+   * Cells in random order, used when removing clues. Cells that mirror each
+   * other under the symmetry come as one group and are removed together,
+   * so the remaining clues keep the symmetric layout.
+   */
+  static createRemovalOrder(
+    gridConfig: GridConfig,
+    symmetry: ClueSymmetry = 'none',
+    random: RandomSource = Math.random
+  ): CellPosition[][] {
+    const { size } = gridConfig;
+    const groups: CellPosition[][] = [];
     
-    // Add all positions
-    for (let row = 0; row < gridConfig.size; row++) {
-      for (let col = 0; col < gridConfig.size; col++) {
-        positions.push({ row, col });
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const partner = symmetricCell[symmetry](row, col, size);
+        const index = row * size + col;
+        const partnerIndex = partner.row * size + partner.col;
+
+        // Each pair is listed once, from its first cell
+        if (partnerIndex === index) groups.push([{ row, col }]);
+        else if (partnerIndex > index) groups.push([{ row, col }, partner]);
       }
     }
 
-    return this.shuffleArray(positions);
+    return this.shuffleArray(groups, random);
+  }
+
+  /**
+   * Count the solutions of a puzzle, stopping once `limit` is reached.
+   * Works for every grid size and leaves the caller's grid untouched.
+   * Puzzles whose givens already conflict have no solutions.
+   */
+  static countSolutions(
+    grid: SudokuGrid,
+    gridConfig: GridConfig,
+    limit = 2,
+    algorithm: SolverAlgorithm = this.getDefaultAlgorithm(gridConfig)
+  ): number {
+    if (!this.validateGrid(grid, gridConfig).isValid) return 0;
+    return this.countWith(algorithm, grid, gridConfig, limit, { steps: Infinity });
   }
 
   /**
    * Check if puzzle has exactly one solution
-   * Optimized to stop at 2 solutions for efficiency
+   * Optimized to stop at 2 solutions for efficiency.
+   * With a step budget, an unfinished search counts as "not unique".
    */
-  // DEPRECATED: These methods are no longer used (we use pre-made puzzles)
-  /*
-  static hasUniqueSolution(grid: SudokuGrid): boolean {
-    const testGrid = this.cloneGrid(grid);
-    return this.countSolutions(testGrid, 2) === 1;
+  static hasUniqueSolution(
+    grid: SudokuGrid,
+    gridConfig: GridConfig,
+    maxSteps = Infinity,
+    algorithm: SolverAlgorithm = this.getDefaultAlgorithm(gridConfig)
+  ): boolean {
+    if (!this.validateGrid(grid, gridConfig).isValid) return false;
+
+    const budget = { steps: maxSteps };
+    const count = this.countWith(algorithm, grid, gridConfig, 2, budget);
+    return count === 1 && budget.steps >= 0;
   }
 
-  private static countSolutions(grid: SudokuGrid, maxCount: number): number {
-    const emptyCell = this.findFirstEmptyCell(grid);
-    if (!emptyCell) return 1; // Found one solution
+  private static countWith(
+    algorithm: SolverAlgorithm,
+    grid: SudokuGrid,
+    gridConfig: GridConfig,
+    maxCount: number,
+    budget: { steps: number }
+  ): number {
+    if (algorithm === 'dancing-links') return DancingLinks.countSolutions(grid, gridConfig, maxCount, budget);
+    return this.countSolutionsRecursive(this.cloneGrid(grid), new UsedDigits(grid, gridConfig), maxCount, budget);
+  }
 
-    const [row, col] = emptyCell;
+  /**
+   * Backtracking search using the same MCV cell choice as solveRecursive
+   */
+  private static countSolutionsRecursive(
+    grid: SudokuGrid,
+    used: UsedDigits,
+    maxCount: number,
+    budget: { steps: number }
+  ): number {
+    if (--budget.steps < 0) return 0; // Out of budget - give up
+
+    const bestCell = this.findBestEmptyCell(grid, used);
+    if (!bestCell) return 1; // Found one solution
+
+    const { row, col, candidates } = bestCell;
     let solutionCount = 0;
 
-    for (let num = 1; num <= 9; num++) {
-      if (this.isValidMove(grid, row, col, num)) {
-        grid[row][col] = num;
-        solutionCount += this.countSolutions(grid, maxCount - solutionCount);
-        grid[row][col] = null;
-        
-        if (solutionCount >= maxCount) break; // Early termination
-      }
+    for (const num of maskToDigits(candidates)) {
+      grid[row][col] = num;
+      used.place(row, col, num);
+      solutionCount += this.countSolutionsRecursive(grid, used, maxCount - solutionCount, budget);
+      used.remove(row, col, num);
+      grid[row][col] = null;
+
+      if (solutionCount >= maxCount || budget.steps < 0) break; // Early termination
     }
 
     return solutionCount;
   }
-  */
 
   /**
-   * Validate entire grid and return conflicts
+   * Validate entire grid and return conflicts.
+   * One pass records which digits appear twice in a row, column or box;
+   * a second marks every cell holding such a digit. The grid is not modified.
    */
   static validateGrid(grid: SudokuGrid, gridConfig: GridConfig): ValidationResult {
-    const conflicts: CellPosition[] = [];
+    const { size, subGridRows, subGridCols } = gridConfig;
+    const boxOf = (row: number, col: number) =>
+      Math.floor(row / subGridRows) * (size / subGridCols) + Math.floor(col / subGridCols);
+
+    // Per unit: digits seen at least once, and digits seen again
+    const seen = { rows: Array(size).fill(0), cols: Array(size).fill(0), boxes: Array(size).fill(0) };
+    const repeated = { rows: Array(size).fill(0), cols: Array(size).fill(0), boxes: Array(size).fill(0) };
+    const record = (unit: 'rows' | 'cols' | 'boxes', index: number, bit: number) => {
+      if (seen[unit][index] & bit) repeated[unit][index] |= bit;
+      seen[unit][index] |= bit;
+    };
 
-    for (let row = 0; row < gridConfig.size; row++) {
-      for (let col = 0; col < gridConfig.size; col++) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
         const num = grid[row][col];
-        if (num !== null) {
-          // Temporarily remove the number to test validity
-          grid[row][col] = null;
-          
-          if (!this.isValidMove(grid, row, col, num, gridConfig)) {
-            conflicts.push({ row, col });
-          }
-          
-          grid[row][col] = num; // Restore the number
+        if (num === null) continue;
+
+        const bit = digitBit(num);
+        record('rows', row, bit);
+        record('cols', col, bit);
+        record('boxes', boxOf(row, col), bit);
+      }
+    }
+
+    const conflicts: CellPosition[] = [];
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const num = grid[row][col];
+        if (num === null) continue;
+
+        const bit = digitBit(num);
+        if ((repeated.rows[row] | repeated.cols[col] | repeated.boxes[boxOf(row, col)]) & bit) {
+          conflicts.push({ row, col });
         }
       }
     }
@@ -266,19 +399,47 @@ export class SudokuSolver {
     };
   }
 
+  /**
+   * Check if every cell holds a value, valid or not
+   */
+  static isFilled(grid: SudokuGrid): boolean {
+    return grid.every(row => row.every(cell => cell !== null));
+  }
+
+  /**
+   * Percentage of cells filled, rounded
+   */
+  static getProgress(grid: SudokuGrid): number {
+    const filledCells = grid.flat().filter(cell => cell !== null).length;
+    return Math.round((filledCells / (grid.length * grid.length)) * 100);
+  }
+
+  /**
+   * How many more of each digit the grid takes, indexed by digit - 1. Never
+   * below zero, even with a digit placed more often than it fits.
+   */
+  static getRemainingCounts(grid: SudokuGrid, gridConfig: GridConfig): number[] {
+    const remaining = Array(gridConfig.maxNumber).fill(gridConfig.size);
+    grid.forEach(cells => cells.forEach(value => {
+      if (value !== null) remaining[value - 1] = Math.max(0, remaining[value - 1] - 1);
+    }));
+    return remaining;
+  }
+
   /**
    * Check if grid is complete and valid
    */
   static isComplete(grid: SudokuGrid, gridConfig: GridConfig): boolean {
-    // Check all cells are filled
-    for (let row = 0; row < gridConfig.size; row++) {
-      for (let col = 0; col < gridConfig.size; col++) {
-        if (grid[row][col] === null) return false;
-      }
-    }
+    return this.isFilled(grid) && this.validateGrid(grid, gridConfig).isValid;
+  }
 
-    // Check validity
-    return this.validateGrid(grid, gridConfig).isValid;
+  /**
+   * Legal digits of every empty cell as bitmasks, going by the placed digits
+   * only; filled cells get 0
+   */
+  static getCandidates(grid: SudokuGrid, gridConfig: GridConfig): CellNotes {
+    const used = new UsedDigits(grid, gridConfig);
+    return grid.map((cells, row) => cells.map((value, col) => (value === null ? used.candidates(row, col) : 0)));
   }
 
   /**
@@ -298,11 +459,9 @@ export class SudokuSolver {
     if (emptyCells.length === 0) return null;
 
     // Prefer cells with fewer possibilities (more helpful hints)
-    emptyCells.sort((a, b) => {
-      const aPossibilities = this.getPossibleNumbers(grid, a.row, a.col, gridConfig).length;
-      const bPossibilities = this.getPossibleNumbers(grid, b.row, b.col, gridConfig).length;
-      return aPossibilities - bPossibilities;
-    });
+    const used = new UsedDigits(grid, gridConfig);
+    const possibilities = (cell: CellPosition) => popcount(used.candidates(cell.row, cell.col));
+    emptyCells.sort((a, b) => possibilities(a) - possibilities(b));
 
     // Return the most constrained cell (best hint)
     return emptyCells[0];
@@ -313,16 +472,12 @@ export class SudokuSolver {
     return grid.map(row => [...row]);
   }
 
-  private static shuffleArray<T>(array: T[]): T[] {
+  private static shuffleArray<T>(array: T[], random: RandomSource): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
   }
-
-  private static clearCache(): void {
-    this.validationCache.clear();
-  }
 }
@@ -0,0 +1,8 @@
+/**
+ * Seconds as mm:ss; minutes keep counting past an hour
+ */
+export const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,133 @@
+import { PuzzleWorkerClient } from '@/workers/puzzleWorkerClient';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { SudokuSolver } from '@/utils/sudokuSolver';
+import { PuzzleWorkerRequest, PuzzleWorkerResponse } from '@/types/sudoku';
+
+/**
+ * Stands in for the browser Worker: records requests and lets the test
+ * decide when, and whether, to answer them.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  requests: PuzzleWorkerRequest[] = [];
+  terminated = false;
+  private listeners: Record<string, ((event: { data?: PuzzleWorkerResponse; message?: string }) => void)[]> = {};
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: { data?: PuzzleWorkerResponse; message?: string }) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  postMessage(request: PuzzleWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(response: PuzzleWorkerResponse) {
+    this.listeners.message?.forEach(listener => listener({ data: response }));
+  }
+}
+
+describe('PuzzleWorkerClient', () => {
+  describe('without Web Worker support', () => {
+    it('should generate the seeded puzzle synchronously', async () => {
+      const puzzle = await new PuzzleWorkerClient().generatePuzzle(6, 'medium', 8812);
+
+      expect(puzzle).toEqual(SudokuGenerator.generatePuzzle(6, 'medium', 8812));
+    });
+  });
+
+  describe('with a worker', () => {
+    const originalWorker = global.Worker;
+
+    beforeEach(() => {
+      FakeWorker.instances = [];
+      global.Worker = FakeWorker as unknown as typeof Worker;
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+      global.Worker = originalWorker;
+    });
+
+    it('should resolve with the puzzle the worker sends back', async () => {
+      const client = new PuzzleWorkerClient();
+      const result = client.generatePuzzle(4, 'easy', 7, { symmetry: 'rotational' });
+      const [worker] = FakeWorker.instances;
+      const request = worker.requests[0];
+      const puzzle = SudokuGenerator.generatePuzzle(4, 'easy', 7, { symmetry: 'rotational' });
+
+      expect(request).toEqual({
+        type: 'generate',
+        id: request.id,
+        size: 4,
+        difficulty: 'easy',
+        seed: 7,
+        options: { symmetry: 'rotational' },
+      });
+      worker.respond({ type: 'generated', id: request.id, puzzle });
+      await expect(result).resolves.toEqual(puzzle);
+    });
+
+    it('should resolve to null when cancelled', async () => {
+      const client = new PuzzleWorkerClient();
+      const result = client.generatePuzzle(16, 'expert');
+
+      client.cancel();
+      await expect(result).resolves.toBeNull();
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+
+    it('should cancel a generation that a newer one replaces', async () => {
+      const client = new PuzzleWorkerClient();
+      const first = client.generatePuzzle(16, 'expert');
+      client.generatePuzzle(4, 'easy');
+
+      await expect(first).resolves.toBeNull();
+      expect(FakeWorker.instances).toHaveLength(2);
+    });
+
+    it('should fall back to a quick puzzle when the worker times out', async () => {
+      const client = new PuzzleWorkerClient();
+      const result = client.generatePuzzle(9, 'hard', 42);
+
+      jest.advanceTimersByTime(10000);
+      const puzzle = await result;
+
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+      expect(puzzle!.seed).toBe(42);
+      expect(SudokuSolver.hasUniqueSolution(puzzle!.puzzle, puzzle!.gridConfig)).toBe(true);
+    });
+
+    it('should fall back to a quick puzzle when the worker fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new PuzzleWorkerClient();
+      const result = client.generatePuzzle(6, 'medium', 3);
+      const [worker] = FakeWorker.instances;
+
+      worker.respond({ type: 'error', id: worker.requests[0].id, message: 'out of memory' });
+      await expect(result).resolves.toEqual(SudokuGenerator.generateFallbackPuzzle(6, 'medium', 3));
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('should ask the worker for hints', async () => {
+      const client = new PuzzleWorkerClient();
+      const { puzzle, solution, gridConfig } = SudokuGenerator.generatePuzzle(4, 'easy', 1);
+      const result = client.findHint(puzzle, solution, gridConfig);
+      const [worker] = FakeWorker.instances;
+      const request = worker.requests[0];
+
+      expect(request.type).toBe('hint');
+      worker.respond({ type: 'hint', id: request.id, hint: null });
+      await expect(result).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { PuzzleWorkerRequest, PuzzleWorkerResponse } from '@/types/sudoku';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { findHint } from '@/utils/hints';
+
+const handleRequest = (request: PuzzleWorkerRequest): PuzzleWorkerResponse => {
+  switch (request.type) {
+    case 'generate':
+      return {
+        type: 'generated',
+        id: request.id,
+        puzzle: SudokuGenerator.generatePuzzle(request.size, request.difficulty, request.seed, request.options),
+      };
+    case 'hint':
+      return {
+        type: 'hint',
+        id: request.id,
+        hint: findHint(request.grid, request.solution, request.gridConfig),
+      };
+  }
+};
+
+addEventListener('message', (event: MessageEvent<PuzzleWorkerRequest>) => {
+  let response: PuzzleWorkerResponse;
+  try {
+    response = handleRequest(event.data);
+  } catch (error) {
+    response = {
+      type: 'error',
+      id: event.data.id,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  postMessage(response);
+});
@@ -0,0 +1,132 @@
+import {
+  Difficulty,
+  GeneratedPuzzle,
+  GenerationOptions,
+  GridConfig,
+  GridSize,
+  Hint,
+  PuzzleWorkerRequest,
+  PuzzleWorkerResponse,
+  SudokuGrid,
+} from '@/types/sudoku';
+import { SudokuGenerator } from '@/utils/sudokuGenerator';
+import { findHint } from '@/utils/hints';
+import { createSeed } from '@/utils/random';
+
+// Longest wait for the worker before settling for a fallback puzzle
+const GENERATION_TIMEOUT_MS = 10000;
+
+type ResponseHandler = (response: PuzzleWorkerResponse | null) => void;
+
+/**
+ * Runs puzzle generation and hint search in a Web Worker so the UI stays
+ * responsive. The worker can't be interrupted mid-puzzle, so cancelling
+ * terminates it and the next request starts a fresh one. Where workers are
+ * unavailable (server rendering, tests) the work runs synchronously.
+ */
+export class PuzzleWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  // Requests waiting for a response; null means the worker went away
+  private pending = new Map<number, ResponseHandler>();
+  private generationId: number | null = null;
+
+  /**
+   * Generate a puzzle off the main thread. Starting a new generation cancels
+   * the previous one, which then resolves to null. If the worker takes longer
+   * than the timeout or fails, a fallback puzzle is generated here instead.
+   */
+  async generatePuzzle(
+    size: GridSize,
+    difficulty: Difficulty,
+    seed: number = createSeed(),
+    options: GenerationOptions = {}
+  ): Promise<GeneratedPuzzle | null> {
+    this.cancel();
+
+    const worker = this.getWorker();
+    if (!worker) return SudokuGenerator.generatePuzzle(size, difficulty, seed, options);
+
+    const id = ++this.nextId;
+    this.generationId = id;
+
+    const timeout = setTimeout(() => {
+      // Resolve with the fallback before terminate() resolves it with null
+      const handler = this.pending.get(id);
+      this.pending.delete(id);
+      this.terminate();
+      handler?.({ type: 'generated', id, puzzle: SudokuGenerator.generateFallbackPuzzle(size, difficulty, seed, options) });
+    }, GENERATION_TIMEOUT_MS);
+
+    const response = await this.send(worker, { type: 'generate', id, size, difficulty, seed, options });
+    clearTimeout(timeout);
+    if (this.generationId === id) this.generationId = null;
+
+    if (!response) return null;
+    if (response.type === 'generated') return response.puzzle;
+
+    const message = response.type === 'error' ? response.message : `unexpected ${response.type} response`;
+    console.error('Puzzle worker failed, using a fallback puzzle:', message);
+    return SudokuGenerator.generateFallbackPuzzle(size, difficulty, seed, options);
+  }
+
+  /**
+   * Find the next hint off the main thread. Resolves to null when there is
+   * none or the worker was cancelled meanwhile.
+   */
+  async findHint(grid: SudokuGrid, solution: SudokuGrid, gridConfig: GridConfig): Promise<Hint | null> {
+    const worker = this.getWorker();
+    if (!worker) return findHint(grid, solution, gridConfig);
+
+    const response = await this.send(worker, { type: 'hint', id: ++this.nextId, grid, solution, gridConfig });
+    return response?.type === 'hint' ? response.hint : null;
+  }
+
+  /**
+   * Stop the generation in flight, if any
+   */
+  cancel(): void {
+    if (this.generationId !== null) this.terminate();
+  }
+
+  dispose(): void {
+    this.terminate();
+  }
+
+  private getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./puzzle.worker.ts', import.meta.url));
+      this.worker.addEventListener('message', (event: MessageEvent<PuzzleWorkerResponse>) => {
+        const handler = this.pending.get(event.data.id);
+        this.pending.delete(event.data.id);
+        handler?.(event.data);
+      });
+      // A crashed worker can't answer anything still pending
+      this.worker.addEventListener('error', event => this.terminate(event.message || 'worker crashed'));
+    }
+    return this.worker;
+  }
+
+  private send(worker: Worker, request: PuzzleWorkerRequest): Promise<PuzzleWorkerResponse | null> {
+    return new Promise(resolve => {
+      this.pending.set(request.id, resolve);
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Stop the worker. Pending requests get an error response when there is
+   * a failure to report, otherwise null as if cancelled.
+   */
+  private terminate(failure?: string): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.generationId = null;
+
+    const handlers = Array.from(this.pending.entries());
+    this.pending.clear();
+    handlers.forEach(([id, handler]) => handler(failure ? { type: 'error', id, message: failure } : null));
+  }
+}